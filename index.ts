@@ -1,8 +1,48 @@
-export { CLI, CLIConfig } from './src/CLI.js';
+export { CLI, CLIConfig, RunOptions, RunResult } from './src/CLI.js';
 export { BaseCommand } from './src/BaseCommand.js';
+export { CLIHooks, CLIPlugin, CommandHookContext } from './src/hooks.js';
+export {
+    CLIError,
+    CLIErrorOptions,
+    ConfigError,
+    ExitCode,
+    ExternalToolError,
+    ExternalToolErrorOptions,
+    NotInProjectError,
+    UsageError,
+    UserCancelledError
+} from './src/errors.js';
 
 export { logger, setDebugMode } from './src/utils/logger.js';
 export { runCommand } from './src/utils/shell.js';
-export { findProjectRoot, loadConfig } from './src/utils/config.js';
+export {
+    ConfigFormat,
+    ConfigLayer,
+    ConfigLayerName,
+    ConfigMigration,
+    ConfigMigrations,
+    ConfigModuleContext,
+    ConfigOrigin,
+    describeConfigOrigin,
+    findProjectRoot,
+    getConfigSearchPlaces,
+    getLatestConfigVersion,
+    interpolateConfig,
+    LayeredConfig,
+    loadConfig,
+    loadLayeredConfig,
+    migrateConfig,
+    validateConfig
+} from './src/utils/config.js';
+export {
+    filterWorkspaceProjects,
+    findWorkspaceRoot,
+    listWorkspaceProjects,
+    selectWorkspaceProject,
+    WorkspaceOptions,
+    WorkspaceProject
+} from './src/utils/workspace.js';
+export { ProjectContext, ResolveProjectContextOptions, resolveProjectContext } from './src/utils/project.js';
+export { ExecutionContext, Output, PrefixedOutput } from './src/utils/io.js';
 
 export * from './src/CommandInterface.js';
@@ -1,22 +1,49 @@
 import { logger } from './utils/logger.js';
-import { CommandDefinition, CommandInterface } from './CommandInterface.js';
-import { findProjectRoot, loadConfig } from './utils/config.js';
-import process from 'node:process';
+import { CommandDefinition, CommandDeprecation, CommandInterface } from './CommandInterface.js';
+import { ConfigOrigin, validateLayeredConfig } from './utils/config.js';
+import { createProcessContext, ExecutionContext } from './utils/io.js';
+import { runCommand } from './utils/shell.js';
+import { listWorkspaceProjects, WorkspaceProject } from './utils/workspace.js';
+import { ProjectContext } from './utils/project.js';
+import { CLIError, NotInProjectError, UserCancelledError } from './errors.js';
 import pc from 'picocolors';
 import { consola } from 'consola';
 
-export abstract class BaseCommand implements CommandInterface {
+/**
+ * Base class of all commands. `TConfig` types `this.config`, usually as
+ * `z.infer<typeof configSchema>` of the schema given to the CLI.
+ */
+export abstract class BaseCommand<TConfig = any> implements CommandInterface {
     static usage = '';
     static description = '';
     static args: CommandDefinition = {};
+    static aliases: string[] = [];
 
     // Configurable flags
     static requiresProject = false;
+    // Load the config without validating it against the CLI's configSchema
+    static skipConfigValidation = false;
+    // Do not warn that the project config is only migrated in memory (see `config migrate`)
+    static skipMigrationWarning = false;
+    // Left out of the command list in help; the command still runs and `help <command>` describes it
+    static hidden = false;
+    // A warning is printed each time the command runs
+    static deprecated?: CommandDeprecation | boolean;
+    // Refused unless enabled under `experimental` in the config
+    static experimental = false;
 
     protected projectRoot: string | null = null;
-    protected config: any = {};
+    // Root of the workspace (monorepo) the project belongs to, if any
+    protected workspaceRoot: string | null = null;
+    protected config: TConfig = {} as TConfig;
+    // Where each config value came from, keyed by its dotted path ('deploy.region')
+    protected configOrigins: Record<string, ConfigOrigin> = {};
+    // Project shared by all commands of the run (set by init)
+    protected projectContext?: ProjectContext;
     protected globalOptions: any = {};
     protected cli: any = null;
+    // Set when the command runs in a context of its own (e.g. once per project with --all-projects)
+    private executionContext?: ExecutionContext;
 
 
     constructor(cli: any, globalOptions: any = {}) {
@@ -24,25 +51,57 @@ export abstract class BaseCommand implements CommandInterface {
         this.cli = cli;
     }
 
+    /**
+     * Environment the command runs in (working directory, env and I/O of the current run).
+     */
+    protected get context(): ExecutionContext {
+        return this.executionContext ?? this.cli?.getContext?.() ?? createProcessContext();
+    }
+
+    /**
+     * Runs the command in another context than the CLI's current one.
+     */
+    setContext(context: ExecutionContext): void {
+        this.executionContext = context;
+    }
+
     async init() {
-        // 1. Root detection strategy
-        if (this.globalOptions.rootDir) {
-            this.projectRoot = this.globalOptions.rootDir;
-        } else {
-            this.projectRoot = await findProjectRoot(this.cli.name, process.cwd());
-        }
+        // Root, workspace and config layers (global, project, local and environment) are
+        // resolved once per run by the CLI
+        const project: ProjectContext = await this.cli.getProjectContext({
+            cwd: this.context.cwd,
+            rootDir: this.globalOptions.rootDir,
+            project: this.globalOptions.project,
+            profile: this.globalOptions.profile,
+            skipMigrationWarning: (this.constructor as any).skipMigrationWarning
+        });
+        this.projectContext = project;
+        this.projectRoot = project.root;
+        this.workspaceRoot = project.workspaceRoot;
+
+        const schema = (this.constructor as any).skipConfigValidation ? undefined : this.cli.getConfigSchema?.();
+        this.config = schema ? validateLayeredConfig(schema, project) : project.config;
+        this.configOrigins = project.origins;
+        logger.debug(`Loaded config from ${project.layers.map(layer => layer.filepath ?? layer.name).join(', ') || 'no layers'}`);
+    }
 
-        if (this.projectRoot) {
-            this.config = await loadConfig(this.cli.name, this.projectRoot);
-            logger.debug(`Loaded config from ${this.projectRoot}`);
-        }
+    /**
+     * Member projects of the workspace with their merged config (none outside a workspace).
+     */
+    protected async getWorkspaceProjects(): Promise<WorkspaceProject[]> {
+        if (!this.workspaceRoot) return [];
+        return listWorkspaceProjects(this.cli.name, this.workspaceRoot, {
+            env: this.context.env,
+            formats: this.cli.getConfigFormats?.(),
+            migrations: this.cli.getConfigMigrations?.(),
+            schema: (this.constructor as any).skipConfigValidation ? undefined : this.cli.getConfigSchema?.()
+        });
     }
 
     async runInit(options: any): Promise<void> {
         const requiresProject = (this.constructor as any).requiresProject;
         if (requiresProject && !this.projectRoot) {
-            this.error(`This command requires to be run within an app project (${this.cli.name}.yml not found).`, 1);
-            return;
+            throw new NotInProjectError(this.cli.name);
         }
         await this.run(options);
     }
@@ -51,39 +110,57 @@ export abstract class BaseCommand implements CommandInterface {
 
     // Helpers
     success(msg: string) {
-        console.log(pc.green('✔ ' + msg));
+        this.context.output.log(pc.green('✔ ' + msg));
     }
 
     notice(msg: string) {
-        console.log(pc.blue('📢 ' + msg));
+        this.context.output.log(pc.blue('📢 ' + msg));
     }
 
     input(msg: string) {
-        console.log(pc.cyan('? ' + msg));
+        this.context.output.log(pc.cyan('? ' + msg));
     }
 
     info(msg: string) {
-        console.log(msg);
+        this.context.output.log(msg);
     }
 
     warn(msg: string) {
-        console.log(pc.yellow('⚠ ' + msg));
+        this.context.output.log(pc.yellow('⚠ ' + msg));
     }
 
-    error(msg: string | Error, code = 1) {
+    /**
+     * Ends the command with an error message and exit code. The CLI prints the message
+     * (and the stack of an Error in debug mode) and reports the code as the result of the run.
+     * Throw one of the errors from errors.js instead for a hint or a specific exit code.
+     */
+    error(msg: string | Error, code = 1): never {
         if (msg instanceof Error) {
-            console.log(pc.red('✖ ' + msg.message));
-            if (this.globalOptions.debug) {
-                logger.error(msg.stack);
-            }
-        } else {
-            console.log(pc.red('✖ ' + msg));
+            throw new CLIError(msg.message, { exitCode: code, cause: msg });
         }
-        process.exit(code);
+        throw new CLIError(msg, { exitCode: code });
     }
 
     async prompt(msg: string): Promise<string> {
-        const response = await consola.prompt(msg, { type: 'text' });
+        const { readLine } = this.context;
+        if (readLine) {
+            // Input provided to CLI.run(): answer with its next line
+            this.input(msg);
+            return readLine();
+        }
+
+        const response = await consola.prompt(msg, { type: 'text', cancel: 'symbol' });
+        if (response === Symbol.for('cancel')) {
+            throw new UserCancelledError();
+        }
         return response as string;
     }
+
+    /**
+     * Runs a shell command in the run's working directory (or `cwd`, relative to it) and prints
+     * its output with the command's. Throws an ExternalToolError when it fails.
+     */
+    async exec(command: string, cwd?: string): Promise<void> {
+        await runCommand(command, cwd, this.context);
+    }
 }
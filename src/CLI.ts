@@ -1,18 +1,88 @@
 import { cac } from 'cac';
-import { CommandLoader } from './CommandLoader.js';
+import { CommandLoader, LoadDiagnostic, LoadedCommand } from './CommandLoader.js';
+import { CommandConflict, CommandTree, CommandNode, describeCommandSource, findCommandConflicts } from './CommandTree.js';
+import { PluginLoader } from './PluginLoader.js';
 import path from 'node:path';
 import fs from 'node:fs';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { fileURLToPath } from 'node:url';
 import pc from 'picocolors';
+import { z, type ZodObject, type ZodTypeAny } from 'zod';
 import pkg from '../package.json';
-import { logger, setDebugMode } from './utils/logger.js';
+import { captureLogs, logger, setDebugMode } from './utils/logger.js';
+import { getArgKey, getOptionKey, isZodType, validateCommandOptions } from './utils/schema.js';
+import {
+    applyConfigValues,
+    describeOptionSources,
+    getCommandConfig,
+    GLOBAL_OPTIONS,
+    getOptionEnvName,
+    OptionSource,
+    resolveOptionValues,
+    toEnvPrefix,
+    VERSION_OPTION
+} from './utils/options.js';
+import { formatSuggestion, suggestCommand, suggestOption } from './utils/suggest.js';
+import { CapturingOutput, createLineReader, createProcessContext, ExecutionContext, Output, PrefixedOutput } from './utils/io.js';
+import { CLIError, ConfigError, ExitCode, UsageError } from './errors.js';
+import { CLIHooks, CLIPlugin, CommandHookContext, createHookContext } from './hooks.js';
+import { ConfigFormat, ConfigMigrations, formatMigrationWarning } from './utils/config.js';
+import { filterWorkspaceProjects, listWorkspaceProjects, WorkspaceProject } from './utils/workspace.js';
+import { createProjectLookup, ProjectContext, ProjectLookup, resolveProjectContext } from './utils/project.js';
+import { describeDeprecation } from './CommandInterface.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// Global options that consume the following argv token
+const GLOBAL_VALUE_OPTIONS = GLOBAL_OPTIONS.filter(option => option.name.includes('<')).map(option => option.name.split(' ')[0]);
+
+/**
+ * Value of --root-dir in the raw argv, before it is parsed.
+ */
+function getRootDirArg(argv: string[]): string | undefined {
+    const index = argv.indexOf('--root-dir');
+    return index >= 0 ? argv[index + 1] : argv.find(arg => arg.startsWith('--root-dir='))?.slice(11);
+}
+
 export interface CLIConfig {
     version?: string;
     commandName?: string;
     searchDirectories?: string[];
+    prefixMatching?: boolean;
+    // Bind every option to a <COMMANDNAME>_<OPTION> environment variable (e.g. MY_CLI_DRY_RUN)
+    autoEnv?: boolean;
+    // Validates the project config file ({commandName}.yml) when commands load it
+    configSchema?: ZodTypeAny;
+    // Formats the project config may use, in search order (default: ['yaml'])
+    configFormats?: ConfigFormat[];
+    // Upgrades of the project config, keyed by the `version` they migrate to
+    migrations?: ConfigMigrations;
+    // Hooks run around every command, before those of plugins
+    hooks?: CLIHooks;
+    // Plugin objects, or names of plugin packages. Packages listed under `plugins` in the project
+    // config, or installed as `<commandName>-plugin-*`, are loaded as well
+    plugins?: (CLIPlugin | string)[];
+    // Cache the metadata of command files so that only the invoked command is imported (default: true)
+    commandCache?: boolean;
+    // Fail startup on command files that cannot be loaded and on commands defined more than once,
+    // instead of skipping the former and using the first definition of the latter
+    strict?: boolean;
+}
+
+export interface RunOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    // Output is always captured; streams given here also receive it as it is written
+    stdout?: NodeJS.WritableStream;
+    stderr?: NodeJS.WritableStream;
+    // Answers to prompts are read line by line from this stream
+    stdin?: NodeJS.ReadableStream;
+}
+
+export interface RunResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
 }
 
 export class CLI {
@@ -20,8 +90,11 @@ export class CLI {
     public version: string;
     private cli: ReturnType<typeof cac>;
     private loader: CommandLoader;
-    private HelpCommandClass: any;
+    private helpCommand?: LoadedCommand;
     private config: CLIConfig;
+    private pluginLoader: PluginLoader;
+    // Plugin objects of the config, then the plugin packages once loaded
+    private plugins: CLIPlugin[];
 
     constructor(config: CLIConfig = {}) {
         this.config = config;
@@ -29,245 +102,607 @@ export class CLI {
         this.version = this.config.version || pkg.version;
         this.cli = cac(this.name);
         this.loader = new CommandLoader(this);
+        this.pluginLoader = new PluginLoader(this.name);
+        this.plugins = this.getConfiguredPlugins();
     }
 
     private loadedCommands: any[] = [];
+    private commandTree: CommandTree = new CommandTree();
+    // Working directory and --root-dir the commands and plugins were loaded for
+    private commandsLoadedFor?: string;
+    private commandConflicts: CommandConflict[] = [];
+    private context?: ExecutionContext;
+    // Project contexts resolved during the current run, keyed by where they were resolved from
+    private projectContexts = new Map<string, Promise<ProjectContext>>();
+    // Project roots and config files looked up during the current run, by the plugins and the contexts
+    private projectLookup?: ProjectLookup;
+    // Runs share the state above (and that of cac), so they wait for the previous one to finish
+    private runQueue: Promise<unknown> = Promise.resolve();
+    // Set within a run, whose nested runs (e.g. from a command) start right away
+    private activeRun = new AsyncLocalStorage<boolean>();
 
     getCommands() {
         return this.loadedCommands;
     }
 
+    /**
+     * Problems with the command files that could not be loaded.
+     */
+    getLoadDiagnostics(): LoadDiagnostic[] {
+        return this.loader.getDiagnostics();
+    }
+
+    /**
+     * Commands defined more than once, with the definition that is used and those it shadows.
+     */
+    getCommandConflicts(): CommandConflict[] {
+        return this.commandConflicts;
+    }
+
+    getCommandTree() {
+        return this.commandTree;
+    }
+
     getRawCLI() {
         return this.cli;
     }
 
+    getPlugins(): CLIPlugin[] {
+        return this.plugins;
+    }
+
+    /**
+     * Environment of the current run: the options given to `run()`, or the process itself.
+     */
+    getContext(): ExecutionContext {
+        return this.context ?? createProcessContext();
+    }
+
+    /**
+     * Directory the command manifests are cached in: `$XDG_CACHE_HOME/<commandName>`, else
+     * `~/.cache/<commandName>`. Undefined when the cache is disabled or there is no home directory.
+     */
+    getCacheDir(): string | undefined {
+        if (this.config.commandCache === false) return undefined;
+
+        const { env } = this.getContext();
+        const base = env.XDG_CACHE_HOME || (env.HOME ? path.join(env.HOME, '.cache') : undefined);
+        return base ? path.join(base, this.name) : undefined;
+    }
+
+    /**
+     * Prefix of the automatic option environment variables, when enabled with `autoEnv`.
+     */
+    getEnvPrefix(): string | undefined {
+        return this.config.autoEnv ? toEnvPrefix(this.name) : undefined;
+    }
+
+    /**
+     * Schema the project config is validated against, if configured: the CLI's `configSchema`
+     * extended with the keys declared by plugins.
+     */
+    getConfigSchema(): ZodTypeAny | undefined {
+        const base = this.config.configSchema;
+        const fragments = this.plugins.filter(plugin => plugin.configSchema).map(plugin => plugin.configSchema!);
+        if (fragments.length === 0) return base;
+
+        const shape = Object.assign({}, ...fragments);
+        if (!base) return z.object(shape).passthrough();
+        return isZodType(base, 'ZodObject') ? (base as ZodObject<any>).extend(shape) : base.and(z.object(shape).passthrough());
+    }
+
+    getConfigFormats(): ConfigFormat[] | undefined {
+        return this.config.configFormats;
+    }
+
+    getConfigMigrations(): ConfigMigrations | undefined {
+        return this.config.migrations;
+    }
+
+    /**
+     * Project of the current run (root, workspace and merged config), resolved on first use and
+     * then shared by every command, hook and the help. Each `run()` resolves it anew. Its warnings
+     * are printed once resolved, except that about a config only migrated in memory when
+     * `skipMigrationWarning` is set.
+     */
+    getProjectContext(options: {
+        cwd?: string;
+        rootDir?: string;
+        project?: string;
+        profile?: string;
+        skipMigrationWarning?: boolean;
+    } = {}): Promise<ProjectContext> {
+        const { cwd, env } = this.getContext();
+        const resolveFrom = { cwd: options.cwd ?? cwd, rootDir: options.rootDir, project: options.project, profile: options.profile };
+        const key = JSON.stringify(resolveFrom);
+
+        let projectContext = this.projectContexts.get(key);
+        if (!projectContext) {
+            projectContext = resolveProjectContext(this.name, {
+                ...resolveFrom,
+                env,
+                formats: this.getConfigFormats(),
+                excludeEnv: this.getOptionEnvNames(),
+                migrations: this.getConfigMigrations(),
+                lookup: this.getProjectLookup()
+            }).then(resolved => {
+                const projectLayer = resolved.layers.find(layer => layer.name === 'project');
+                const migrationWarning = projectLayer?.migratedFrom !== undefined
+                    ? formatMigrationWarning(this.name, projectLayer.filepath!, projectLayer.migratedFrom, projectLayer.config.version)
+                    : undefined;
+                for (const warning of resolved.warnings) {
+                    if (!(options.skipMigrationWarning && warning === migrationWarning)) logger.warn(warning);
+                }
+                return resolved;
+            });
+            // Failures are not cached, so that the next command reports them too
+            projectContext.catch(() => this.projectContexts.delete(key));
+            this.projectContexts.set(key, projectContext);
+        }
+        return projectContext;
+    }
+
+    private getProjectLookup(): ProjectLookup {
+        this.projectLookup ??= createProjectLookup(this.name, this.getConfigFormats(), this.getContext().env);
+        return this.projectLookup;
+    }
+
+    /**
+     * Environment variables bound to the options of any command. They are not read as config.
+     */
+    private getOptionEnvNames(): string[] {
+        const names = this.loadedCommands.flatMap((cmd: LoadedCommand) => (cmd.class.args?.options ?? [])
+            .map((option: any) => getOptionEnvName(option, this.getEnvPrefix())));
+        return [...new Set(names.filter((name): name is string => !!name))];
+    }
+
+    private get output(): Output {
+        return this.getContext().output;
+    }
+
+    /**
+     * Runs the CLI from the process arguments, exiting with the resulting code on failure.
+     */
     async start() {
-        if (process.argv.includes('--debug')) {
+        const { exitCode } = await this.run(process.argv.slice(2), {
+            stdout: process.stdout,
+            stderr: process.stderr,
+            stdin: process.stdin
+        });
+
+        if (exitCode !== 0) {
+            process.exit(exitCode);
+        }
+    }
+
+    /**
+     * Runs the CLI in-process with the given arguments (without the node and script paths).
+     * The process is never exited; failures are reported through the exit code of the result.
+     * Concurrent runs are executed one after the other.
+     */
+    run(argv: string[], options: RunOptions = {}): Promise<RunResult> {
+        if (this.activeRun.getStore()) return this.runNow(argv, options);
+
+        const result = this.runQueue.then(() => this.activeRun.run(true, () => this.runNow(argv, options)));
+        this.runQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async runNow(argv: string[], options: RunOptions): Promise<RunResult> {
+        const output = new CapturingOutput(options.stdout, options.stderr);
+        const lineReader = options.stdin && options.stdin !== process.stdin ? createLineReader(options.stdin) : undefined;
+        const restoreLogs = captureLogs(output);
+
+        const previousContext = this.context;
+        const previousProjectContexts = this.projectContexts;
+        const previousProjectLookup = this.projectLookup;
+        this.projectContexts = new Map();
+        this.projectLookup = undefined;
+        this.context = {
+            cwd: options.cwd ?? process.cwd(),
+            env: options.env ?? process.env,
+            stdin: options.stdin ?? process.stdin,
+            output,
+            readLine: lineReader?.next
+        };
+
+        try {
+            const exitCode = await this.execute(argv);
+            return { exitCode, stdout: output.stdout, stderr: output.stderr };
+        } finally {
+            restoreLogs();
+            lineReader?.close();
+            this.context = previousContext;
+            this.projectContexts = previousProjectContexts;
+            this.projectLookup = previousProjectLookup;
+        }
+    }
+
+    private async execute(argv: string[]): Promise<number> {
+        if (argv.includes('--debug')) {
             setDebugMode(true);
             logger.debug('Debug mode enabled via --debug flag');
         }
 
+        // The commands of the working directory and the plugins of its project are loaded again
+        // when a run starts from another one
+        const loadKey = JSON.stringify([this.getContext().cwd, getRootDirArg(argv)]);
+        if (this.commandsLoadedFor !== loadKey) {
+            this.commandsLoadedFor = undefined;
+            try {
+                await this.loadCommands(argv);
+            } catch (e: any) {
+                return this.reportError(e, [], argv.includes('--debug'));
+            }
+            this.commandsLoadedFor = loadKey;
+        }
+
+        if (argv.includes('--help') || argv.includes('-h')) {
+            // Global help unless a command was given
+            const args = argv.filter(a => !a.startsWith('-'));
+            if (args.length === 0) {
+                await this.runHelp([]);
+                return ExitCode.Success;
+            }
+        }
+
+        try {
+            this.cli.parse([process.argv[0], this.name, ...this.routeArgv(argv)], { run: false });
+
+            // Only the catch-all command (which has no name) accepts --version
+            if (this.cli.options?.version && !this.cli.matchedCommand?.name) {
+                this.output.log(`${this.name}/${this.version} ${process.platform}-${process.arch} node-${process.version}`);
+                return ExitCode.Success;
+            }
+
+            // Actions resolve to the exit code of the command (undefined on success)
+            const exitCode = await this.cli.runMatchedCommand();
+            return exitCode ?? ExitCode.Success;
+        } catch (e: any) {
+            // Try to provide helpful context for the deepest command we can identify
+            const { node } = this.commandTree.resolve(argv, this.resolveOptions());
+
+            let hint: string | undefined;
+            const unknownOption = /^Unknown option `(.+)`$/.exec(e.message)?.[1];
+            if (unknownOption) {
+                const declared = (node.command?.class.args?.options || []).map((opt: any) => opt.name);
+                const suggestion = suggestOption(unknownOption, [...declared, ...GLOBAL_OPTIONS.map(option => option.name)]);
+                if (suggestion) hint = formatSuggestion(suggestion);
+            }
+
+            // Anything CAC rejects while parsing (unknown option, missing value, ...) is a usage error
+            const error = e instanceof CLIError ? e : new UsageError(e.message, { hint, cause: e });
+            return this.reportError(error, node.path, argv.includes('--debug'));
+        }
+    }
+
+    private async loadCommands(argv: string[]) {
+        // Start over from what a previous (possibly failed) load registered
+        this.cli = cac(this.name);
+        this.loader.reset();
+        this.plugins = this.getConfiguredPlugins();
+        this.helpCommand = undefined;
+
+        await this.loadPlugins(argv);
+
         let commandsDirs: string[] = [];
 
         if (this.config.searchDirectories && this.config.searchDirectories.length > 0) {
             commandsDirs = [...this.config.searchDirectories];
         } else {
-            const possibleDirs = [
-                path.resolve(__dirname, './src/commands'),
-                path.resolve(process.cwd(), 'commands')    // Fallback relative to cwd
-            ];
-
-            for (const dir of possibleDirs) {
-                if (fs.existsSync(dir)) {
-                    commandsDirs.push(dir);
-                }
+            // The core commands directory is left out: it loads last so that these override it
+            const cwdCommandsDir = path.resolve(this.getContext().cwd, 'commands');    // Fallback relative to cwd
+            if (fs.existsSync(cwdCommandsDir)) {
+                commandsDirs.push(cwdCommandsDir);
             }
         }
 
-        // Always add core commands directory (where help command lives)
-        const coreCommandsDir = path.resolve(__dirname, './commands');
-        const coreCommandsDirSrc = path.resolve(__dirname, './src/commands');
-
-        if (fs.existsSync(coreCommandsDir)) {
-            commandsDirs.push(coreCommandsDir);
-        } else if (fs.existsSync(coreCommandsDirSrc)) {
-            // Fallback for tsup chunking which puts CLI in dist/ but keeps src/commands in dist/src/commands
-            commandsDirs.push(coreCommandsDirSrc);
-        }
-
         // Fallback or error
         if (commandsDirs.length === 0) {
             logger.debug("No commands directory found.");
         }
 
+        // Precedence on name conflicts: the CLI's own directories in order, then plugins, then the
+        // core commands directory (where help command lives)
+        const coreCommandsDir = path.resolve(__dirname, './commands');
+        const coreCommandsDirSrc = path.resolve(__dirname, './src/commands');
+        const loadedDirs = new Set<string>();
+
         for (const dir of commandsDirs) {
+            if (loadedDirs.has(path.resolve(dir))) continue;
             // Loader accumulates commands
+            loadedDirs.add(path.resolve(dir));
             await this.loader.load(dir);
         }
-        this.loadedCommands = this.loader.getCommands();
+        for (const plugin of this.plugins) {
+            if (!plugin.commandsDir) continue;
+            await this.loader.load(plugin.commandsDir, { prefix: plugin.namespace?.split(' '), plugin: plugin.name });
+        }
+        // Fallback for tsup chunking which puts CLI in dist/ but keeps src/commands in dist/src/commands
+        const coreDir = fs.existsSync(coreCommandsDir) ? coreCommandsDir : fs.existsSync(coreCommandsDirSrc) ? coreCommandsDirSrc : undefined;
+        if (coreDir && !loadedDirs.has(coreDir)) {
+            await this.loader.load(coreDir);
+        }
+
+        // Command files that could not be loaded are reported once, instead of vanishing from help
+        const diagnostics = this.loader.getDiagnostics();
+        if (diagnostics.length > 0) {
+            const message = `Could not load ${diagnostics.length === 1 ? 'a command file' : `${diagnostics.length} command files`}:\n` +
+                diagnostics.map(diagnostic => `  ${diagnostic.path}: ${diagnostic.message}`).join('\n');
+            if (this.config.strict) {
+                throw new CLIError(message, { hint: 'Fix the command files, or disable `strict` to skip them.' });
+            }
+            this.output.error(pc.yellow(`⚠ ${message}`));
+        }
+
+        this.commandConflicts = findCommandConflicts(this.loader.getCommands());
+        for (const conflict of this.commandConflicts) {
+            logger.debug(`Command '${conflict.command}' from ${describeCommandSource(conflict.used)} shadows ${conflict.shadowed.map(describeCommandSource).join(', ')}`);
+        }
+        if (this.config.strict && this.commandConflicts.length > 0) {
+            throw new CLIError(`Conflicting command definitions:\n${this.commandConflicts.map(conflict =>
+                `  ${conflict.command}: ${[conflict.used, ...conflict.shadowed].map(describeCommandSource).join(', ')}`).join('\n')}`, {
+                hint: 'Rename or remove the duplicate commands, or disable `strict` to use the first definition of each.'
+            });
+        }
+
+        const shadowed = new Set(this.commandConflicts.flatMap(conflict => conflict.shadowed));
+        this.loadedCommands = this.loader.getCommands().filter(cmd => !shadowed.has(cmd));
+
+        this.commandTree = new CommandTree(this.loadedCommands);
 
-        // Group commands by root command name
-        const commandGroups: Record<string, any[]> = {};
         // Locate HelpCommand for fallback usage
         const helpCmd = this.loadedCommands.find(c => c.command === 'help');
         if (helpCmd) {
-            this.HelpCommandClass = helpCmd.class;
-        }
-
-        for (const cmd of this.loadedCommands) {
-            const root = cmd.command.split(' ')[0];
-            if (!commandGroups[root]) commandGroups[root] = [];
-            commandGroups[root].push(cmd);
-        }
-
-        for (const [root, cmds] of Object.entries(commandGroups)) {
-            // Case 1: Single command, no subcommands (e.g. 'init')
-            if (cmds.length === 1 && cmds[0].command === root) {
-                const cmd = cmds[0];
-                const CommandClass = cmd.class;
-                // Original logic for single command
-                let commandName = cmd.command;
-                const argsDef = CommandClass.args || {};
-                if (argsDef.args) {
-                    argsDef.args.forEach((arg: any) => {
-                        const isVariadic = arg.name.endsWith('...');
-                        const cleanName = isVariadic ? arg.name.slice(0, -3) : arg.name;
-                        // Always use optional brackets [] for CAC to allow --help to pass validation
-                        // We will enforce 'required' manually in the action handler
-                        commandName += isVariadic ? ` [...${cleanName}]` : ` [${cleanName}]`;
-                    });
-                }
-                const cacCommand = this.cli.command(commandName, CommandClass.description || '');
+            this.helpCommand = helpCmd;
+        }
 
-                // Register options
-                if (argsDef.options) {
-                    argsDef.options.forEach((opt: any) => {
-                        cacCommand.option(opt.name, opt.description, { default: opt.default });
-                    });
-                }
-                this.registerGlobalOptions(cacCommand);
+        for (const node of this.commandTree.nodes()) {
+            if (node.command) {
+                // Command of any depth (e.g. 'init', 'module add', 'cloud db backup'), including
+                // parent commands from index files (e.g. 'user') that also have subcommands
+                this.registerCommand(node.command, node);
+            } else {
+                // Namespace with subcommands only (e.g. 'module', 'cloud db')
+                this.registerNamespace(node);
+            }
+        }
+        this.registerFallback();
 
-                cacCommand.action(async (...args: any[]) => {
-                    const options = args.pop();
+        // Manually register global help to ensure it's allowed
+        this.cli.option('--help, -h', 'Display help');
 
-                    if (options.help) {
-                        await this.runHelp([cmd.command]);
-                        return;
-                    }
+        // Version output is handled in execute() so that it goes through the run's output
+        this.cli.option(VERSION_OPTION.name, VERSION_OPTION.description);
+    }
 
-                    const positionalArgs = args;
-
-                    if (argsDef.args) {
-                        argsDef.args.forEach((arg: any, index: number) => {
-                            const isVariadic = arg.name.endsWith('...');
-                            const name = isVariadic ? arg.name.slice(0, -3) : arg.name;
-                            const val = positionalArgs[index];
-
-                            if (val !== undefined) {
-                                options[name] = val;
-                            } else if (arg.required) {
-                                console.error(pc.red(`Missing required argument: ${name}`));
-                                this.runHelp([cmd.command]).then(() => process.exit(1));
-                                return;
-                            }
-                        });
-                    }
-                    await this.runCommand(CommandClass, options, [cmd.command]);
-                });
-            } else {
-                // Case 2: Command with subcommands (e.g. 'module add')
-                // Register 'module <subcommand>' catch-all
-                const commandName = `${root} [subcommand] [...args]`;
-                const cacCommand = this.cli.command(commandName, `Manage ${root} commands`);
+    /**
+     * Imports the plugin packages named in the CLI config, under `plugins` in the project config,
+     * and those installed as `<commandName>-plugin-*` in the project. Packages that fail to load
+     * are reported and skipped.
+     */
+    private async loadPlugins(argv: string[]) {
+        const { cwd } = this.getContext();
+        const names = (this.config.plugins || []).filter((plugin): plugin is string => typeof plugin === 'string');
+
+        const rootDirArg = getRootDirArg(argv);
+        // Looked up once for the run: the project context reuses the root and config file.
+        // Errors in the project config are reported once a command loads it
+        const lookup = this.getProjectLookup();
+        const root = rootDirArg ? path.resolve(cwd, rootDirArg) : await lookup.findRoot(cwd).catch(() => null);
+
+        if (root) {
+            const projectFile = await lookup.readConfigFile(root).catch(() => null);
+            const listed = projectFile?.config.plugins;
+            if (Array.isArray(listed)) {
+                names.push(...listed.filter((name: unknown): name is string => typeof name === 'string'));
+            } else if (listed !== undefined) {
+                logger.error(`Invalid plugins in ${projectFile!.filepath}: expected a list of package names.`);
+            }
+        }
+        names.push(...this.pluginLoader.discover(root ?? cwd));
 
-                cacCommand.allowUnknownOptions(); // Pass options to subcommand
-                this.registerGlobalOptions(cacCommand);
+        for (const name of new Set(names)) {
+            try {
+                this.plugins.push(await this.pluginLoader.load(name, [root ?? cwd, __dirname]));
+            } catch (e: any) {
+                logger.error(`Failed to load plugin ${name}: ${e.message}`);
+            }
+        }
+    }
 
-                cacCommand.action(async (subcommand: string, ...args: any[]) => {
-                    const options = args.pop(); // last is options
+    private getConfiguredPlugins(): CLIPlugin[] {
+        return (this.config.plugins || []).filter((plugin): plugin is CLIPlugin => typeof plugin !== 'string');
+    }
 
-                    if (!subcommand || options.help) {
-                        await this.runHelp([root, subcommand].filter(Boolean));
-                        return;
-                    }
+    private resolveOptions() {
+        return { valueOptions: GLOBAL_VALUE_OPTIONS, prefixMatching: !!this.config.prefixMatching };
+    }
 
+    /**
+     * CAC only matches a single leading token against command names, so command paths are
+     * collapsed into one token holding the canonical name the command was registered under
+     * (e.g. ['cloud', 'db', 'backup'] -> 'cloud db backup', ['module', 'rm'] -> 'module remove').
+     * Remaining tokens become positional args.
+     */
+    private routeArgv(tokens: string[]): string[] {
+        const { node, indexes, ambiguous } = this.commandTree.resolve(tokens, this.resolveOptions());
+        if (ambiguous) {
+            throw new UsageError(`Ambiguous command '${ambiguous.token}'. Did you mean one of: ${ambiguous.candidates.join(', ')}?`);
+        }
+        if (indexes.length === 0) {
+            return tokens;
+        }
 
-                    // Find matching command
-                    // Match against "root subcommand"
-                    const fullCommandName = `${root} ${subcommand}`;
-                    const cmd = cmds.find(c => c.command === fullCommandName);
+        const routed = tokens.filter((_, index) => !indexes.includes(index));
+        routed.splice(indexes[0], 0, node.path.join(' '));
+        return routed;
+    }
 
-                    if (!cmd) {
-                        console.error(pc.red(`Unknown subcommand '${subcommand}' for '${root}'`));
-                        process.exit(1);
-                    }
+    private registerCommand(cmd: LoadedCommand, node: CommandNode) {
+        // Only the metadata of the command until it is invoked
+        const CommandClass = cmd.class;
+        const commandParts = cmd.command.split(' ');
+        const argsDef = CommandClass.args || {};
+
+        let commandName = cmd.command;
+        if (argsDef.args) {
+            argsDef.args.forEach((arg: any) => {
+                const isVariadic = arg.name.endsWith('...');
+                const cleanName = getArgKey(arg.name);
+                // Always use optional brackets [] for CAC to allow --help to pass validation
+                // We will enforce 'required' manually in the action handler
+                commandName += isVariadic ? ` [...${cleanName}]` : ` [${cleanName}]`;
+            });
+        }
+        const cacCommand = this.cli.command(commandName, CommandClass.description || '');
 
-                    const CommandClass = cmd.class;
-                    const argsDef = CommandClass.args || {};
-                    const positionalArgs = (args.length > 0 && Array.isArray(args[0])) ? args[0] : args;
-
-                    const childOptions = { ...options }; // Copy options
-
-                    const cmdParts = [root, subcommand];
-
-                    if (argsDef.args) {
-                        argsDef.args.forEach((arg: any, index: number) => {
-                            const isVariadic = arg.name.endsWith('...');
-                            const name = isVariadic ? arg.name.slice(0, -3) : arg.name;
-                            const val = positionalArgs[index];
-
-                            if (val !== undefined) {
-                                if (isVariadic) {
-                                    childOptions[name] = positionalArgs.slice(index);
-                                } else {
-                                    childOptions[name] = val;
-                                }
-                            } else if (arg.required) {
-                                console.error(pc.red(`Missing required argument: ${name}`));
-                                this.runHelp(cmdParts).then(() => process.exit(1));
-                                return;
-                            }
-                        });
-                    }
+        // Register options
+        if (argsDef.options) {
+            argsDef.options.forEach((opt: any) => {
+                cacCommand.option(opt.name, opt.description, { default: opt.default });
+            });
+        }
+        this.registerGlobalOptions(cacCommand);
+
+        cacCommand.action(async (...args: any[]) => {
+            const options = args.pop();
+
+            if (options.help) {
+                await this.runHelp(commandParts);
+                return;
+            }
 
-                    if (argsDef.options) {
-                        argsDef.options.forEach((opt: any) => {
-                            const name = opt.name.replace(/^-+/, ''); // remove leading dashes
-                            const camelName = name.split(' ')[0].replace(/-([a-z])/g, (g: string) => g[1].toUpperCase());
-
-                            // Check both raw name and camelCase name
-                            // CAC usually provides camelCase options
-                            if (childOptions[camelName] === undefined && opt.default !== undefined) {
-                                childOptions[camelName] = opt.default;
-                            }
-                        });
+            const positionalArgs = args;
+
+            // A parent command without positional args of its own only runs when no subcommand
+            // was given; any other word is an unknown subcommand (known ones were routed already).
+            const hasSubcommands = node.children.size > 0;
+            const unmatched = hasSubcommands && !argsDef.args?.length ? this.cli.args?.[0] : undefined;
+            if (unmatched) {
+                return this.reportUnknownCommand(node, this.cli.args);
+            }
+
+            if (argsDef.args) {
+                for (const [index, arg] of argsDef.args.entries()) {
+                    const name = getArgKey(arg.name);
+                    const val = positionalArgs[index];
+                    const missing = val === undefined || (Array.isArray(val) && val.length === 0);
+
+                    if (!missing) {
+                        options[name] = val;
+                    } else if (arg.required) {
+                        return this.reportError(new UsageError(`Missing required argument: ${name}`), commandParts);
                     }
+                }
+            }
 
-                    await this.runCommand(CommandClass, childOptions, cmdParts);
-                });
+            // Options not given as flags come from their environment variable, then their default
+            // (the project config is only known once the command is initialized)
+            const sources = resolveOptionValues(argsDef.options || [], options, {
+                argv: this.cli.rawArgs?.slice(2) ?? [],
+                env: this.getContext().env,
+                envPrefix: this.getEnvPrefix()
+            });
+
+            let LoadedClass = cmd.class;
+            try {
+                if (cmd.load) LoadedClass = await cmd.load();
+            } catch (e: any) {
+                return this.reportError(e, commandParts, this.cli.rawArgs?.includes('--debug'));
             }
-        }
 
-        // Manually register global help to ensure it's allowed
-        this.cli.option('--help, -h', 'Display help');
+            return this.runCommand(LoadedClass, options, commandParts, sources);
+        });
+    }
 
-        this.cli.version(this.version);
+    private registerNamespace(node: CommandNode) {
+        const namespace = node.path.join(' ');
+        const cacCommand = this.cli.command(`${namespace} [...args]`, `Manage ${namespace} commands`);
 
-        if (process.argv.includes('--help') || process.argv.includes('-h')) {
-            // Inspect non-option args to see if there's a command?
-            const args = process.argv.slice(2).filter(a => !a.startsWith('-'));
-            if (args.length === 0) {
+        cacCommand.allowUnknownOptions(); // Options belong to the unmatched subcommand
+        this.registerGlobalOptions(cacCommand);
+
+        cacCommand.action(async (args: string[], options: any) => {
+            // Any known subcommand would have been routed to its own CAC command
+            const subcommand = args?.[0];
+
+            if (!subcommand || options.help) {
+                await this.runHelp(node.path);
+                return;
+            }
+
+            return this.reportUnknownCommand(node, args);
+        });
+    }
+
+    /**
+     * Catch-all for words that match no command at all.
+     */
+    private registerFallback() {
+        const cacCommand = this.cli.command('[...args]', '');
+
+        cacCommand.allowUnknownOptions();
+        this.registerGlobalOptions(cacCommand);
+
+        cacCommand.action(async (args: string[]) => {
+            if (!args || args.length === 0) {
                 await this.runHelp([]);
-                process.exit(0);
+                return;
             }
-        }
 
-        try {
-            this.cli.parse();
-        } catch (e: any) {
-            console.error(pc.red(e.message));
+            return this.reportUnknownCommand(this.commandTree.getRoot(), args);
+        });
+    }
+
+    /**
+     * Reports words that did not match any subcommand of `node`, suggesting the closest command.
+     * Returns the exit code of the run.
+     */
+    private reportUnknownCommand(node: CommandNode, words: readonly string[]): Promise<number> {
+        const scope = node.path.join(' ');
+        const message = scope ? `Unknown subcommand '${words[0]}' for '${scope}'` : `Unknown command '${words[0]}'`;
+        const suggestion = suggestCommand(this.loadedCommands.filter(cmd => !cmd.class.hidden), [...node.path, ...words], node.path);
+
+        return this.reportError(new UsageError(message, {
+            hint: suggestion ? formatSuggestion(suggestion) : undefined,
+            showHelp: false
+        }), node.path);
+    }
+
+    /**
+     * Prints an error and its hint, followed by the help of the command for usage errors.
+     * Returns the exit code of the run: the one carried by CLIErrors, 1 for any other error.
+     */
+    private async reportError(e: any, commandParts: string[], debug = false, output = this.output): Promise<number> {
+        const error = e instanceof CLIError ? e : undefined;
 
-            // Try to provide helpful context
-            console.log('');
-            // Simple heuristic: find first non-flag arg as command
-            const args = process.argv.slice(2);
-            const potentialCommand = args.find(a => !a.startsWith('-'));
-            const helpArgs = potentialCommand ? [potentialCommand] : [];
-            await this.runHelp(helpArgs);
+        output.error(pc.red('✖ ' + e.message));
+        if (error?.hint) {
+            output.error(pc.yellow(error.hint));
+        }
+        if (debug) {
+            output.error((error?.cause instanceof Error ? error.cause : e).stack);
+        }
 
-            process.exit(1);
+        if (error?.showHelp) {
+            output.log(''); // spacer
+            await this.runHelp(commandParts);
         }
+
+        return error ? error.exitCode : ExitCode.Error;
     }
 
     private registerGlobalOptions(cacCommand: any) {
-        cacCommand.option('--root-dir <path>', 'Override project root');
-        cacCommand.option('--debug', 'Enable debug mode');
-        cacCommand.option('--help, -h', 'Display help message');
+        for (const option of GLOBAL_OPTIONS) {
+            cacCommand.option(option.name, option.description);
+        }
     }
 
     private async runHelp(commandParts: string[]) {
-        if (this.HelpCommandClass) {
-            const helpInstance = new this.HelpCommandClass(this);
+        if (this.helpCommand) {
+            const HelpCommandClass = this.helpCommand.load ? await this.helpCommand.load() : this.helpCommand.class;
+            const helpInstance = new HelpCommandClass(this);
             await helpInstance.run({ command: commandParts });
         } else {
             // Fallback if HelpCommand not loaded (shouldn't happen)
@@ -275,19 +710,245 @@ export class CLI {
         }
     }
 
-    private async runCommand(CommandClass: any, options: any, commandParts: string[] = []) {
+    /**
+     * Hooks of the CLI config followed by those of each plugin, in registration order.
+     */
+    private getHooks(): CLIHooks[] {
+        const hooks = this.config.hooks ? [this.config.hooks] : [];
+        for (const plugin of this.plugins) {
+            if (plugin.hooks) hooks.push(plugin.hooks);
+        }
+        return hooks;
+    }
+
+    private async runHooks(name: 'beforeInit' | 'beforeRun' | 'afterRun', context: CommandHookContext) {
+        for (const hooks of this.getHooks()) {
+            if (context.stopped) return;
+            await hooks[name]?.(context);
+        }
+    }
+
+    /**
+     * Applies the option values of the command's section in the project config to the options
+     * not given as flag or environment variable, validating them against the declared schemas.
+     */
+    private applyCommandConfig(
+        CommandClass: any,
+        options: Record<string, any>,
+        sources: Record<string, OptionSource>,
+        command: string,
+        project: { config: any; configPath?: string | null }
+    ): Record<string, any> {
+        const declared = CommandClass.args?.options || [];
+        const values = { ...options };
+        const applied = applyConfigValues(declared, values, sources, getCommandConfig(project.config, command));
+        if (applied.length === 0) return options;
+
+        const validation = validateCommandOptions(
+            { options: declared.filter((opt: any) => applied.includes(getOptionKey(opt.name))) },
+            values
+        );
+        if (!validation.success) {
+            throw new ConfigError(validation.issues.join('\n'), {
+                hint: `Check the '${command}' entry under 'commands' in ${project.configPath ?? `the ${this.name} config`}.`
+            });
+        }
+        return validation.data;
+    }
+
+    /**
+     * Validates the arguments and options a hook set or replaced against their declared schemas,
+     * like those given on the command line. Values the hook left alone are not validated again.
+     */
+    private validateHookOptions(CommandClass: any, before: Record<string, any>, options: Record<string, any>): Record<string, any> {
+        const changed = (key: string) => !Object.is(before[key], options[key]);
+        const validation = validateCommandOptions({
+            args: (CommandClass.args?.args || []).filter((arg: any) => changed(getArgKey(arg.name))),
+            options: (CommandClass.args?.options || []).filter((opt: any) => changed(getOptionKey(opt.name)))
+        }, options);
+        if (!validation.success) {
+            throw new UsageError(validation.issues.join('\n'));
+        }
+        return validation.data;
+    }
+
+    /**
+     * Validates the options, then initializes and runs the command between the lifecycle hooks.
+     * With `executionContext`, the command runs in that context instead of the CLI's current one.
+     * Returns the exit code of the run.
+     */
+    private async runCommand(
+        CommandClass: any,
+        options: any,
+        commandParts: string[] = [],
+        sources: Record<string, OptionSource> = {},
+        executionContext?: ExecutionContext
+    ): Promise<number> {
+        // Warned about once, not per project of --all-projects
+        if (CommandClass.deprecated && !executionContext) {
+            this.output.error(pc.yellow('⚠ ' + describeDeprecation(this.name, commandParts.join(' '), CommandClass.deprecated)));
+        }
+
+        if (options.allProjects && !executionContext) {
+            return this.runInAllProjects(CommandClass, options, commandParts, sources);
+        }
+
+        const context = createHookContext(this, commandParts.join(' '), CommandClass, options);
+
         try {
-            const instance = new CommandClass(this, options);
+            // Coerce and validate against the zod schemas declared in the command definition
+            const validation = validateCommandOptions(CommandClass.args, options);
+            if (!validation.success) {
+                throw new UsageError(validation.issues.join('\n'));
+            }
+            context.options = validation.data;
+
+            // The project is shared with the command's init, which reports a failure to resolve it
+            const project = await this.getProjectContext({
+                cwd: (executionContext ?? this.getContext()).cwd,
+                rootDir: context.options.rootDir,
+                project: context.options.project,
+                profile: context.options.profile,
+                skipMigrationWarning: CommandClass.skipMigrationWarning
+            }).catch(() => undefined);
+            context.project = project;
+            context.projectRoot = project?.root;
+            context.workspaceRoot = project?.workspaceRoot;
+            context.config = project?.config;
+
+            let hookOptions = { ...context.options };
+            await this.runHooks('beforeInit', context);
+            if (context.stopped) return context.exitCode;
+            context.options = this.validateHookOptions(CommandClass, hookOptions, context.options);
+
+            const instance = new CommandClass(this, context.options);
+            if (executionContext) instance.setContext(executionContext);
             await instance.init();
-            await instance.runInit(options);
+            if (CommandClass.experimental && !isExperimentalEnabled(instance.projectContext?.config.experimental, context.command)) {
+                throw new UsageError(`'${this.name} ${context.command}' is experimental.`, {
+                    hint: `Enable it with \`experimental: true\` (or a list of command names) in the ${this.name} config, or ${toEnvPrefix(this.name)}_EXPERIMENTAL=true.`,
+                    showHelp: false
+                });
+            }
+            context.instance = instance;
+            context.project = instance.projectContext;
+            context.projectRoot = instance.projectRoot;
+            context.workspaceRoot = instance.workspaceRoot;
+            context.config = instance.config;
+            context.options = this.applyCommandConfig(CommandClass, context.options, sources, context.command, {
+                config: instance.config,
+                configPath: instance.projectContext?.configPath
+            });
+
+            for (const line of describeOptionSources(CommandClass.args?.options || [], context.options, sources)) {
+                logger.debug(`[${context.command}] ${line}`);
+            }
+
+            hookOptions = { ...context.options };
+            await this.runHooks('beforeRun', context);
+            if (context.stopped) return context.exitCode;
+            context.options = this.validateHookOptions(CommandClass, hookOptions, context.options);
+
+            await instance.runInit(context.options);
+
+            await this.runHooks('afterRun', context);
+            return context.exitCode;
         } catch (e: any) {
-            console.error(pc.red(e.message));
-            if (options.debug) console.error(e.stack);
+            let error = e;
+            for (const hooks of this.getHooks()) {
+                if (!hooks.onError) continue;
+                try {
+                    await hooks.onError(error, context);
+                } catch (replacement) {
+                    error = replacement;
+                }
+                if (context.stopped) return context.exitCode;
+            }
 
-            console.log(''); // spacer
-            await this.runHelp(commandParts);
+            return this.reportError(error, commandParts, context.options.debug, executionContext?.output);
+        }
+    }
+
+    /**
+     * Runs the command once per project of the workspace (`--all-projects`), optionally filtered
+     * with `--filter <glob>` and `--concurrency <n>` at a time. Output is prefixed with the project
+     * name and followed by a summary; fails when any project failed.
+     */
+    private async runInAllProjects(
+        CommandClass: any,
+        options: any,
+        commandParts: string[],
+        sources: Record<string, OptionSource>
+    ): Promise<number> {
+        const { env } = this.getContext();
+        const formats = this.getConfigFormats();
 
-            process.exit(1);
+        try {
+            const concurrency = options.concurrency === undefined ? 1 : Number(options.concurrency);
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                throw new UsageError(`Invalid value for --concurrency: expected a positive integer, got '${options.concurrency}'.`);
+            }
+
+            const { workspaceRoot } = await this.getProjectContext({ rootDir: options.rootDir });
+            if (!workspaceRoot) {
+                throw new UsageError(`--all-projects requires a workspace (a ${this.name}.yml declaring workspaces).`, { showHelp: false });
+            }
+
+            let projects = await listWorkspaceProjects(this.name, workspaceRoot, { env, formats, migrations: this.getConfigMigrations() });
+            if (options.filter) {
+                projects = filterWorkspaceProjects(projects, workspaceRoot, String(options.filter));
+            }
+            if (projects.length === 0) {
+                throw new UsageError(options.filter ? `No project matches '${options.filter}'.` : `No projects found in workspace ${workspaceRoot}.`, { showHelp: false });
+            }
+
+            const width = Math.max(...projects.map(project => project.name.length));
+            const results = await mapWithConcurrency(projects, concurrency, async (project: WorkspaceProject) => {
+                const output = new PrefixedOutput(this.output, pc.dim(`[${project.name.padEnd(width)}]`));
+                const projectOptions = { ...options, rootDir: project.root, project: undefined, allProjects: false };
+                const exitCode = await this.runCommand(CommandClass, projectOptions, commandParts, { ...sources }, {
+                    ...this.getContext(),
+                    cwd: project.root,
+                    output
+                });
+                return { project, exitCode };
+            });
+
+            const failed = results.filter(result => result.exitCode !== 0);
+            this.output.log('');
+            for (const { project, exitCode } of results) {
+                this.output.log(exitCode === 0 ? pc.green(`✔ ${project.name}`) : pc.red(`✖ ${project.name} (exit code ${exitCode})`));
+            }
+            this.output.log(`${results.length - failed.length} passed, ${failed.length} failed`);
+
+            return failed.length > 0 ? ExitCode.Error : ExitCode.Success;
+        } catch (e: any) {
+            return this.reportError(e, commandParts, options.debug);
         }
     }
 }
+
+/**
+ * Maps the items with at most `limit` calls in flight, keeping the order of the results.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Whether the `experimental` config value (true, or a list of command names) enables a command.
+ */
+function isExperimentalEnabled(value: unknown, command: string): boolean {
+    return value === true || (Array.isArray(value) && value.includes(command));
+}
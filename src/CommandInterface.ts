@@ -1,8 +1,11 @@
+import type { ZodTypeAny, output } from 'zod';
+
 export interface CommandArg {
     name: string;
     required?: boolean;
     description?: string;
     default?: any;
+    schema?: ZodTypeAny; // e.g. z.enum(['dev', 'prod'])
 }
 
 export interface CommandOption {
@@ -10,13 +13,85 @@ export interface CommandOption {
     description?: string;
     default?: any;
     type?: any[];
+    schema?: ZodTypeAny; // e.g. z.number().int()
+    env?: string; // e.g. 'MYCLI_TOKEN', read when the flag is not given
 }
 
 export interface CommandDefinition {
-    args?: CommandArg[];
-    options?: CommandOption[];
+    args?: readonly CommandArg[];
+    options?: readonly CommandOption[];
+}
+
+// Details of `static deprecated`, shown in help and warned about when the command runs
+export interface CommandDeprecation {
+    since?: string; // e.g. '2.0.0'
+    replacement?: string; // command to use instead, e.g. 'deploy run'
+    message?: string;
 }
 
 export interface CommandInterface {
     run(options: any): Promise<void>;
 }
+
+/**
+ * Deprecation notice of a command, e.g. "'app push' is deprecated since 2.0.0. Use 'app deploy' instead."
+ */
+export function describeDeprecation(bin: string, command: string, deprecated: CommandDeprecation | boolean): string {
+    const details = typeof deprecated === 'object' ? deprecated : {};
+    let notice = `'${bin} ${command}' is deprecated${details.since ? ` since ${details.since}` : ''}.`;
+    if (details.replacement) notice += ` Use '${bin} ${details.replacement}' instead.`;
+    if (details.message) notice += ` ${details.message}`;
+    return notice;
+}
+
+// Type inference for `static args` declared with `as const satisfies CommandDefinition`
+
+type CamelCase<S extends string> = S extends `${infer Head}-${infer Tail}`
+    ? `${Head}${Capitalize<CamelCase<Tail>>}`
+    : S;
+
+type StripDashes<S extends string> = S extends `-${infer Rest}` ? StripDashes<Rest> : S;
+
+type FlagName<S extends string> = S extends `${infer First},${string}`
+    ? FlagName<First>
+    : S extends `${infer Flag} ${string}` ? Flag : S;
+
+type OptionKey<S extends string> = StripDashes<FlagName<S>> extends `no-${infer Negated}`
+    ? CamelCase<Negated>
+    : CamelCase<StripDashes<FlagName<S>>>;
+
+type ArgKey<S extends string> = S extends `${infer Name}...` ? Name : S;
+
+type ArgValue<A> = A extends { schema: infer S extends ZodTypeAny }
+    ? output<S>
+    : A extends { name: `${string}...` } ? string[] : string;
+
+type OptionValue<O> = O extends { schema: infer S extends ZodTypeAny }
+    ? output<S>
+    : O extends { name: `${string}<${string}` | `${string}[${string}` } ? string : boolean;
+
+type IsPresent<E> = E extends { schema: infer S extends ZodTypeAny }
+    ? (undefined extends output<S> ? false : true)
+    : E extends { required: true } ? true
+    : E extends { default: {} } ? true
+    : false;
+
+type InferArgs<A extends readonly CommandArg[]> = {
+    [E in A[number] as IsPresent<E> extends true ? ArgKey<E['name']> : never]: ArgValue<E>;
+} & {
+    [E in A[number] as IsPresent<E> extends true ? never : ArgKey<E['name']>]?: ArgValue<E>;
+};
+
+type InferFlags<O extends readonly CommandOption[]> = {
+    [E in O[number] as IsPresent<E> extends true ? OptionKey<E['name']> : never]: OptionValue<E>;
+} & {
+    [E in O[number] as IsPresent<E> extends true ? never : OptionKey<E['name']>]?: OptionValue<E>;
+};
+
+/**
+ * Derives the options object a command's `run()` receives from its `static args` definition.
+ * Arguments and options with a `schema` take the schema's output type.
+ */
+export type InferOptions<D extends CommandDefinition> =
+    (D['args'] extends readonly CommandArg[] ? InferArgs<D['args']> : {}) &
+    (D['options'] extends readonly CommandOption[] ? InferFlags<D['options']> : {});
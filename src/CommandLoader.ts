@@ -1,19 +1,67 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { BaseCommand } from './BaseCommand.js';
+import crypto from 'node:crypto';
+import { CommandDefinition, CommandDeprecation } from './CommandInterface.js';
 import { logger } from './utils/logger.js';
+import { GLOBAL_OPTIONS } from './utils/options.js';
 
 export interface LoadedCommand {
     command: string;
     path: string;
-    instance: BaseCommand;
+    // The command class, or only its metadata (see CommandManifestEntry) until `load()` imports it
     class: any;
+    // Name of the plugin that contributed the command
+    plugin?: string;
+    // Set while the command is only known from the manifest: imports the class and stores it in `class`
+    load?: () => Promise<any>;
 }
 
+export interface LoadOptions {
+    // Command path the commands of the directory are registered under (e.g. ['cloud'])
+    prefix?: string[];
+    plugin?: string;
+}
+
+// A command file that could not be registered, and why
+export interface LoadDiagnostic {
+    path: string;
+    message: string;
+    // Error thrown while importing the file
+    error?: Error;
+}
+
+// Metadata of a command file, enough to route to it and list it in help without importing it
+export interface CommandManifestEntry {
+    // Command path within the directory, e.g. 'module add'
+    command: string;
+    // Path of the file, relative to the directory
+    file: string;
+    description: string;
+    usage: string;
+    aliases: string[];
+    // Arguments and options without their zod schemas
+    args: CommandDefinition;
+    hidden: boolean;
+    deprecated?: CommandDeprecation | boolean;
+    experimental: boolean;
+}
+
+export interface CommandManifest {
+    version: number;
+    // Modification time of every directory and candidate file scanned, relative to the directory
+    mtimes: Record<string, number>;
+    commands: CommandManifestEntry[];
+}
+
+const MANIFEST_VERSION = 2;
+
 export class CommandLoader {
     private cli: any = null;
     private commands: LoadedCommand[] = [];
     private importer: (path: string) => Promise<any>;
+    // Classes imported while scanning, keyed by file path
+    private imported = new Map<string, any>();
+    private diagnostics: LoadDiagnostic[] = [];
 
     constructor(cli: any, importer: (path: string) => Promise<any> = (p) => import(p)) {
         this.cli = cli;
@@ -24,31 +72,123 @@ export class CommandLoader {
         return this.commands;
     }
 
-    async load(commandsDir: string): Promise<LoadedCommand[]> {
+    /**
+     * Problems with the command files loaded so far. Those files are not registered as commands.
+     */
+    getDiagnostics(): LoadDiagnostic[] {
+        return this.diagnostics;
+    }
+
+    /**
+     * Forgets the commands and diagnostics loaded so far, before loading them again.
+     */
+    reset(): void {
+        this.commands = [];
+        this.imported.clear();
+        this.diagnostics = [];
+    }
+
+    /**
+     * Registers the commands of a directory. Their metadata is read from the cached manifest when
+     * none of the files changed since it was written; the directory is scanned and every command
+     * imported otherwise, and the manifest rewritten.
+     */
+    async load(commandsDir: string, options: LoadOptions = {}): Promise<LoadedCommand[]> {
         logger.debug(`Loading commands from: ${commandsDir}`);
         if (!fs.existsSync(commandsDir)) {
             logger.debug(`Commands directory not found: ${commandsDir}`);
             return [];
         }
 
-        await this.scan(commandsDir, []);
+        const prefix = options.prefix ?? [];
+        const manifestPath = this.getManifestPath(commandsDir);
+        const cached = manifestPath ? readManifest(manifestPath, commandsDir) : undefined;
+
+        if (cached) {
+            logger.debug(`Using command manifest ${manifestPath}`);
+            for (const entry of cached.commands) {
+                this.commands.push(this.createLazyCommand(commandsDir, entry, prefix, options.plugin));
+            }
+            return this.commands;
+        }
+
+        const manifest: CommandManifest = { version: MANIFEST_VERSION, mtimes: {}, commands: [] };
+        const complete = await this.scan(commandsDir, commandsDir, [], manifest);
+        for (const entry of manifest.commands) {
+            const CommandClass = this.imported.get(path.join(commandsDir, entry.file));
+            this.commands.push({
+                command: [...prefix, entry.command].join(' '),
+                path: path.join(commandsDir, entry.file),
+                class: CommandClass,
+                ...(options.plugin ? { plugin: options.plugin } : {})
+            });
+        }
+        // Files that could not be loaded are not cached, so that their diagnostics are reported again
+        if (manifestPath && complete) writeManifest(manifestPath, manifest);
+
         return this.commands;
     }
 
-    private async scan(dir: string, prefix: string[]) {
+    /**
+     * Cache file of the manifest of a directory, in the CLI's cache directory (none when disabled).
+     */
+    private getManifestPath(commandsDir: string): string | undefined {
+        const cacheDir = this.cli?.getCacheDir?.();
+        if (!cacheDir) return undefined;
+
+        const hash = crypto.createHash('sha1').update(path.resolve(commandsDir)).digest('hex').slice(0, 12);
+        return path.join(cacheDir, `commands-${hash}.json`);
+    }
+
+    private createLazyCommand(commandsDir: string, entry: CommandManifestEntry, prefix: string[], plugin?: string): LoadedCommand {
+        const fullPath = path.join(commandsDir, entry.file);
+        const loaded: LoadedCommand = {
+            command: [...prefix, entry.command].join(' '),
+            path: fullPath,
+            class: {
+                description: entry.description,
+                usage: entry.usage,
+                aliases: entry.aliases,
+                args: entry.args,
+                hidden: entry.hidden,
+                deprecated: entry.deprecated,
+                experimental: entry.experimental
+            },
+            ...(plugin ? { plugin } : {}),
+            load: async () => {
+                const module = await this.importer(fullPath);
+                if (!module.default) {
+                    throw new Error(`Command file ${fullPath} does not export a command class.`);
+                }
+                loaded.class = module.default;
+                delete loaded.load;
+                return loaded.class;
+            }
+        };
+        return loaded;
+    }
+
+    /**
+     * Imports the command files of `dir` and adds them to `manifest`. Returns false when a file
+     * could not be loaded.
+     */
+    private async scan(rootDir: string, dir: string, prefix: string[], manifest: CommandManifest): Promise<boolean> {
         const files = fs.readdirSync(dir);
+        let complete = true;
+        manifest.mtimes[path.relative(rootDir, dir)] = fs.statSync(dir).mtimeMs;
 
         for (const file of files) {
             const fullPath = path.join(dir, file);
             const stat = fs.statSync(fullPath);
 
             if (stat.isDirectory()) {
-                await this.scan(fullPath, [...prefix, file]);
+                complete = await this.scan(rootDir, fullPath, [...prefix, file], manifest) && complete;
             } else if ((file.endsWith('.ts') || file.endsWith('.js')) && !file.endsWith('.d.ts')) {
                 // Ignore index files or non-command files if needed, but for now scan all.
                 // Assuming "index.ts" might be the command for the directory path itself if we supported that,
                 // but let's stick to "create.ts" -> "create"
                 logger.debug(`Found potential command file: ${fullPath}`);
+                manifest.mtimes[path.relative(rootDir, fullPath)] = stat.mtimeMs;
 
                 const name = path.basename(file, path.extname(file));
                 const commandParts = [...prefix];
@@ -59,25 +199,138 @@ export class CommandLoader {
                 }
 
                 // Import
+                let module: any;
                 try {
-                    const module = await this.importer(fullPath);
-                    // Assume default export is the command class
-                    const CommandClass = module.default;
-
-                    if (CommandClass) { // Loose check for now to debug
-                        const commandName = commandParts.join(' ');
-                        logger.debug(`Registered command: ${commandName}`);
-                        this.commands.push({
-                            command: commandName,
-                            path: fullPath,
-                            instance: new CommandClass(this.cli),
-                            class: CommandClass
-                        });
-                    }
-                } catch (e) {
-                    logger.error(`Failed to load command at ${fullPath}`, e);
+                    module = await this.importer(fullPath);
+                } catch (e: any) {
+                    logger.debug(`Failed to import ${fullPath}`, e);
+                    this.diagnostics.push({ path: fullPath, message: `Failed to import: ${e.message}`, error: e });
+                    complete = false;
+                    continue;
+                }
+
+                // The default export is the command class
+                const CommandClass = module.default;
+                const problems = checkCommandClass(CommandClass);
+                if (problems.length > 0) {
+                    this.diagnostics.push(...problems.map(message => ({ path: fullPath, message })));
+                    complete = false;
+                    continue;
                 }
+
+                const commandName = commandParts.join(' ');
+                logger.debug(`Registered command: ${commandName}`);
+                this.imported.set(fullPath, CommandClass);
+                manifest.commands.push(describeCommand(commandName, path.relative(rootDir, fullPath), CommandClass));
             }
         }
+        return complete;
+    }
+}
+
+/**
+ * Problems that keep a default export from being registered as a command: it must be a class
+ * extending BaseCommand (from any copy of the package) and declare well formed `static args`.
+ */
+function checkCommandClass(CommandClass: any): string[] {
+    if (typeof CommandClass !== 'function' || typeof CommandClass.prototype?.runInit !== 'function') {
+        return ['The default export is not a class extending BaseCommand.'];
+    }
+
+    const definition = CommandClass.args;
+    if (definition === undefined) return [];
+    if (!definition || typeof definition !== 'object' || ![definition.args, definition.options].every(list => list === undefined || Array.isArray(list))) {
+        return ['`static args` must be an object with `args` and `options` lists.'];
+    }
+
+    const problems: string[] = [];
+    const args: any[] = definition.args ?? [];
+    let optional: string | undefined;
+    args.forEach((arg, index) => {
+        if (typeof arg?.name !== 'string' || !arg.name) {
+            problems.push(`Argument ${index + 1} has no name.`);
+            return;
+        }
+        if (arg.name.endsWith('...') && index < args.length - 1) {
+            problems.push(`Variadic argument '${arg.name}' must be the last argument.`);
+        }
+        if (arg.required && optional) {
+            problems.push(`Required argument '${arg.name}' cannot follow optional argument '${optional}'.`);
+        }
+        if (!arg.required) optional ??= arg.name;
+    });
+
+    // Flags of the global options, which every command accepts
+    const globalFlags = new Set(GLOBAL_OPTIONS.flatMap(option => getFlags(option.name)));
+    // Flags by the option declaring them, e.g. '--help, -h' declares --help and -h
+    const declared = new Map<string, string>();
+    for (const option of definition.options ?? []) {
+        if (typeof option?.name !== 'string' || !option.name.startsWith('-')) {
+            problems.push(`Option ${JSON.stringify(option?.name)} must be a flag such as '--name'.`);
+            continue;
+        }
+        for (const flag of getFlags(option.name)) {
+            const previous = declared.get(flag);
+            if (globalFlags.has(flag)) {
+                problems.push(`Option '${option.name}' declares ${flag}, which is a global option.`);
+            } else if (previous) {
+                problems.push(`Option '${option.name}' declares ${flag} again (already declared by '${previous}').`);
+            } else {
+                declared.set(flag, option.name);
+            }
+        }
+    }
+
+    return problems;
+}
+
+// Flags of an option name, e.g. ['--out', '-o'] for '--out, -o <dir>'
+function getFlags(name: string): string[] {
+    return name.split(',').map(part => part.trim().split(' ')[0]);
+}
+
+function describeCommand(command: string, file: string, CommandClass: any): CommandManifestEntry {
+    const withoutSchema = ({ schema: _schema, ...rest }: any) => rest;
+    return {
+        command,
+        file,
+        description: CommandClass.description ?? '',
+        usage: CommandClass.usage ?? '',
+        aliases: CommandClass.aliases ?? [],
+        args: {
+            ...(CommandClass.args?.args ? { args: CommandClass.args.args.map(withoutSchema) } : {}),
+            ...(CommandClass.args?.options ? { options: CommandClass.args.options.map(withoutSchema) } : {})
+        },
+        hidden: !!CommandClass.hidden,
+        ...(CommandClass.deprecated ? { deprecated: CommandClass.deprecated } : {}),
+        experimental: !!CommandClass.experimental
+    };
+}
+
+/**
+ * Reads a cached manifest, provided none of the directories and files it was built from changed.
+ */
+function readManifest(manifestPath: string, commandsDir: string): CommandManifest | undefined {
+    try {
+        const manifest: CommandManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        if (manifest.version !== MANIFEST_VERSION) return undefined;
+
+        for (const [file, mtimeMs] of Object.entries(manifest.mtimes)) {
+            if (fs.statSync(path.join(commandsDir, file)).mtimeMs !== mtimeMs) return undefined;
+        }
+        return manifest;
+    } catch {
+        // Missing, unreadable or outdated (a file was removed)
+        return undefined;
+    }
+}
+
+function writeManifest(manifestPath: string, manifest: CommandManifest) {
+    try {
+        fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+    } catch (e: any) {
+        // The manifest is only a cache
+        logger.debug(`Could not write command manifest ${manifestPath}: ${e.message}`);
     }
 }
@@ -0,0 +1,168 @@
+import type { LoadedCommand } from './CommandLoader.js';
+
+export interface CommandNode {
+    name: string;
+    path: string[];
+    command?: LoadedCommand;
+    children: Map<string, CommandNode>;
+}
+
+export interface ResolvedPath {
+    node: CommandNode;
+    // Indexes of the argv tokens that make up the matched command path
+    indexes: number[];
+    // Set when a token is a prefix of several subcommands
+    ambiguous?: { token: string; candidates: string[] };
+}
+
+// A command name defined by several files
+export interface CommandConflict {
+    command: string;
+    // The first definition loaded, which is the one used
+    used: LoadedCommand;
+    shadowed: LoadedCommand[];
+}
+
+export interface ResolveOptions {
+    // Flags known to consume the following token
+    valueOptions?: string[];
+    // Accept unambiguous prefixes of command names (e.g. 'mod' for 'module')
+    prefixMatching?: boolean;
+}
+
+/**
+ * Routing tree of loaded commands, keyed by the space separated command name.
+ * 'cloud db backup' lives at root -> cloud -> db -> backup; intermediate nodes without a
+ * command of their own act as namespaces.
+ */
+export class CommandTree {
+    private root: CommandNode = { name: '', path: [], children: new Map() };
+
+    constructor(commands: LoadedCommand[] = []) {
+        for (const cmd of commands) {
+            this.add(cmd);
+        }
+    }
+
+    add(cmd: LoadedCommand) {
+        let node = this.root;
+        for (const part of cmd.command.split(' ')) {
+            let child = node.children.get(part);
+            if (!child) {
+                child = { name: part, path: [...node.path, part], children: new Map() };
+                node.children.set(part, child);
+            }
+            node = child;
+        }
+        if (!node.command) {
+            node.command = cmd;
+        }
+    }
+
+    getRoot(): CommandNode {
+        return this.root;
+    }
+
+    find(path: string[]): CommandNode | undefined {
+        let node: CommandNode | undefined = this.root;
+        for (const part of path) {
+            node = node.children.get(part);
+            if (!node) return undefined;
+        }
+        return node;
+    }
+
+    /**
+     * All nodes of the tree (depth first), excluding the root.
+     */
+    nodes(): CommandNode[] {
+        const result: CommandNode[] = [];
+        const walk = (node: CommandNode) => {
+            for (const child of node.children.values()) {
+                result.push(child);
+                walk(child);
+            }
+        };
+        walk(this.root);
+        return result;
+    }
+
+    /**
+     * Finds the child of a node matching a token by name, then by the aliases declared on its
+     * command class (`static aliases`), then optionally by unambiguous prefix.
+     */
+    matchChild(node: CommandNode, token: string, prefixMatching = false): CommandNode | CommandNode[] | undefined {
+        const exact = node.children.get(token);
+        if (exact) return exact;
+
+        const children = [...node.children.values()];
+        const aliased = children.find(child => getAliases(child).includes(token));
+        if (aliased) return aliased;
+
+        if (prefixMatching) {
+            const candidates = children.filter(child => child.name.startsWith(token));
+            if (candidates.length === 1) return candidates[0];
+            if (candidates.length > 1) return candidates;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves the longest command path matching the positional tokens of argv.
+     * Options are skipped, together with the value of the flags listed in `valueOptions`.
+     */
+    resolve(tokens: string[], options: ResolveOptions = {}): ResolvedPath {
+        const { valueOptions = [], prefixMatching = false } = options;
+        let node = this.root;
+        const indexes: number[] = [];
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (token === '--') break;
+            if (token.startsWith('-')) {
+                if (valueOptions.includes(token)) i++;
+                continue;
+            }
+
+            const match = this.matchChild(node, token, prefixMatching);
+            if (Array.isArray(match)) {
+                return { node, indexes, ambiguous: { token, candidates: match.map(child => child.path.join(' ')) } };
+            }
+            if (!match) break;
+            node = match;
+            indexes.push(i);
+        }
+
+        return { node, indexes };
+    }
+}
+
+/**
+ * Aliases declared by the command class of a node (e.g. `static aliases = ['ls']`).
+ */
+export function getAliases(node: CommandNode): string[] {
+    return node.command?.class?.aliases || [];
+}
+
+/**
+ * Command names loaded more than once. The first definition wins, so the directories loaded
+ * first take precedence.
+ */
+export function findCommandConflicts(commands: readonly LoadedCommand[]): CommandConflict[] {
+    const byName = new Map<string, LoadedCommand[]>();
+    for (const cmd of commands) {
+        byName.set(cmd.command, [...(byName.get(cmd.command) ?? []), cmd]);
+    }
+
+    return [...byName.entries()]
+        .filter(([, definitions]) => definitions.length > 1)
+        .map(([command, [used, ...shadowed]]) => ({ command, used, shadowed }));
+}
+
+/**
+ * Where a command was loaded from, e.g. `/app/commands/deploy.ts (plugin: deploy)`.
+ */
+export function describeCommandSource(cmd: LoadedCommand): string {
+    return cmd.plugin ? `${cmd.path} (plugin: ${cmd.plugin})` : cmd.path;
+}
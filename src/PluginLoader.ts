@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { CLIPlugin } from './hooks.js';
+import { logger } from './utils/logger.js';
+
+/**
+ * Finds and imports plugins distributed as npm packages. A plugin package default-exports a
+ * `CLIPlugin`; a relative `commandsDir` is resolved against the package directory.
+ */
+export class PluginLoader {
+    private commandName: string;
+    private importer: (path: string) => Promise<any>;
+
+    constructor(commandName: string, importer: (path: string) => Promise<any> = (p) => import(p)) {
+        this.commandName = commandName;
+        this.importer = importer;
+    }
+
+    /**
+     * Installed packages following the `<name>-plugin-*` (or `@scope/<name>-plugin-*`) naming
+     * convention, in the `node_modules` directory of `dir`.
+     */
+    discover(dir: string): string[] {
+        const modulesDir = path.join(dir, 'node_modules');
+        const prefix = `${this.commandName}-plugin-`;
+        const found: string[] = [];
+
+        for (const entry of readDirNames(modulesDir)) {
+            if (entry.startsWith('@')) {
+                for (const scoped of readDirNames(path.join(modulesDir, entry))) {
+                    if (scoped.startsWith(prefix)) found.push(`${entry}/${scoped}`);
+                }
+            } else if (entry.startsWith(prefix)) {
+                found.push(entry);
+            }
+        }
+
+        return found.sort();
+    }
+
+    /**
+     * Imports the plugin package `name`, looked up in the `node_modules` directories of each of
+     * `fromDirs` and their parents.
+     */
+    async load(name: string, fromDirs: readonly string[]): Promise<CLIPlugin> {
+        const packageDir = fromDirs.map(dir => findPackageDir(name, dir)).find(Boolean);
+        if (!packageDir) {
+            throw new Error(`Plugin package '${name}' is not installed.`);
+        }
+
+        const entry = getPackageEntry(packageDir);
+        logger.debug(`Loading plugin ${name} from ${entry}`);
+        const module = await this.importer(pathToFileURL(entry).href);
+        const plugin = module.default ?? module;
+        if (!plugin || typeof plugin !== 'object') {
+            throw new Error(`Plugin package '${name}' does not export a plugin.`);
+        }
+
+        return {
+            ...plugin,
+            name: plugin.name ?? name,
+            commandsDir: plugin.commandsDir ? path.resolve(packageDir, plugin.commandsDir) : undefined
+        };
+    }
+}
+
+function readDirNames(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir);
+    } catch {
+        return [];
+    }
+}
+
+function findPackageDir(name: string, startDir: string): string | undefined {
+    let dir = path.resolve(startDir);
+    while (true) {
+        const candidate = path.join(dir, 'node_modules', name);
+        if (fs.existsSync(path.join(candidate, 'package.json'))) return candidate;
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return undefined;
+        dir = parent;
+    }
+}
+
+/**
+ * Module imported for a package: its `exports` entry for `import`, else `module`, `main` or index.js.
+ */
+function getPackageEntry(packageDir: string): string {
+    const pkg = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+
+    let exported = pkg.exports;
+    if (exported && typeof exported === 'object' && '.' in exported) exported = exported['.'];
+    while (exported && typeof exported === 'object') exported = exported.import ?? exported.default;
+
+    const entry = typeof exported === 'string' ? exported : pkg.module ?? pkg.main ?? 'index.js';
+    return path.resolve(packageDir, entry);
+}
@@ -0,0 +1,34 @@
+import YAML from 'yaml';
+import { BaseCommand } from '../../BaseCommand.js';
+import { getConfigFilePath, getConfigValue, parseKeyPath, readConfigDocument } from '../../utils/config.js';
+
+export default class ConfigGetCommand extends BaseCommand {
+    static description = 'Print the value of a config key.';
+    static skipConfigValidation = true;
+
+    static args = {
+        args: [
+            { name: 'key', required: true, description: 'Dotted key path, e.g. deploy.region' }
+        ],
+        options: [
+            { name: '--global', description: 'Read the user config file only' }
+        ]
+    };
+
+    async run(options: any) {
+        const keyPath = parseKeyPath(options.key);
+
+        let config = this.config;
+        if (options.global) {
+            const filepath = getConfigFilePath(this.cli.name, 'global', this.projectRoot, this.context.env);
+            config = (await readConfigDocument(filepath)).toJS() ?? {};
+        }
+
+        const value = getConfigValue(config, keyPath);
+        if (value === undefined) {
+            this.error(`Config key '${options.key}' is not set.`);
+        }
+
+        this.info(value !== null && typeof value === 'object' ? YAML.stringify(value).trimEnd() : String(value));
+    }
+}
@@ -0,0 +1,49 @@
+import { BaseCommand } from '../../BaseCommand.js';
+import { describeConfigOrigin, getConfigFilePath, getConfigValue, readConfigDocument } from '../../utils/config.js';
+
+export default class ConfigListCommand extends BaseCommand {
+    static description = 'List the resolved config values.';
+    static skipConfigValidation = true;
+
+    static args = {
+        options: [
+            { name: '--show-origin', description: 'Show the file or environment variable each value comes from' },
+            { name: '--global', description: 'List the user config file only' }
+        ]
+    };
+
+    async run(options: any) {
+        let config = this.config;
+        let origins = this.configOrigins;
+
+        if (options.global) {
+            const filepath = getConfigFilePath(this.cli.name, 'global', this.projectRoot, this.context.env);
+            config = (await readConfigDocument(filepath)).toJS() ?? {};
+            origins = {};
+            for (const key of this.listKeys(config)) {
+                origins[key] = { layer: 'global', filepath };
+            }
+        }
+
+        const keys = Object.keys(origins);
+        if (keys.length === 0) {
+            this.info('No config values set.');
+            return;
+        }
+
+        for (const key of keys) {
+            const value = getConfigValue(config, key.split('.'));
+            const line = `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`;
+            this.info(options.showOrigin ? `${describeConfigOrigin(origins[key])}\t${line}` : line);
+        }
+    }
+
+    // Dotted paths of the values of a config (lists count as one value)
+    private listKeys(config: any, prefix: string[] = []): string[] {
+        return Object.entries(config).flatMap(([key, value]) =>
+            value !== null && typeof value === 'object' && !Array.isArray(value)
+                ? this.listKeys(value, [...prefix, key])
+                : [[...prefix, key].join('.')]
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { BaseCommand } from '../../BaseCommand.js';
+import { ConfigError } from '../../errors.js';
+import { formatConfigDocument, getLatestConfigVersion, migrateConfig, readConfigDocument, updateConfigDocument } from '../../utils/config.js';
+
+export default class ConfigMigrateCommand extends BaseCommand {
+    static description = 'Upgrade the project config file to the latest config version.';
+    static requiresProject = true;
+    static skipConfigValidation = true;
+    static skipMigrationWarning = true;
+
+    static args = {
+        options: [
+            { name: '--dry-run', description: 'Print the migrated config without writing it' }
+        ]
+    };
+
+    async run(options: any) {
+        const migrations = this.cli.getConfigMigrations?.() ?? {};
+        const latest = getLatestConfigVersion(migrations);
+        const filepath = this.projectContext?.configPath;
+        if (!filepath) {
+            this.error(`No ${this.cli.name} config file found in ${this.projectRoot}.`);
+        }
+        if (!/\.(ya?ml|json)$/.test(filepath) || path.basename(filepath) === 'package.json') {
+            throw new ConfigError(`Cannot migrate ${filepath}: only YAML and JSON config files can be rewritten.`, {
+                hint: `Update it to config version ${latest} by hand.`
+            });
+        }
+
+        // Only the content of the file itself is migrated, not the files it extends
+        const doc = await readConfigDocument(filepath);
+        if (doc.warnings.some(warning => warning.code === 'TAG_RESOLVE_FAILED')) {
+            throw new ConfigError(`Cannot migrate ${filepath}: its tags (such as !include) would be lost.`, {
+                hint: `Update it to config version ${latest} by hand.`
+            });
+        }
+
+        const original = doc.toJS() ?? {};
+        const { config, from, to } = migrateConfig(original, migrations, filepath);
+        if (from === to) {
+            this.info(`${filepath} is already at config version ${to}.`);
+            return;
+        }
+
+        // Only the keys the migrations changed are rewritten, keeping the comments of the others
+        updateConfigDocument(doc, original, config);
+        const content = formatConfigDocument(filepath, doc);
+        if (options.dryRun) {
+            this.info(content.trimEnd());
+            return;
+        }
+
+        const backup = `${filepath}.v${from}.bak`;
+        await fs.copyFile(filepath, backup);
+        await fs.writeFile(filepath, content);
+
+        this.success(`Migrated ${filepath} from config version ${from} to ${to} (backup: ${backup})`);
+    }
+}
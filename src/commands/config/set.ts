@@ -0,0 +1,39 @@
+import { BaseCommand } from '../../BaseCommand.js';
+import { getConfigFilePath, parseConfigValue, parseKeyPath, readConfigDocument, writeConfigDocument } from '../../utils/config.js';
+
+export default class ConfigSetCommand extends BaseCommand {
+    static description = 'Set a config key in the project (or user) config file.';
+    static skipConfigValidation = true;
+
+    static args = {
+        args: [
+            { name: 'key', required: true, description: 'Dotted key path, e.g. deploy.region' },
+            { name: 'value', required: true, description: 'Value, parsed as YAML (e.g. 3, true, [a, b])' }
+        ],
+        options: [
+            { name: '--global', description: 'Write to the user config file' }
+        ]
+    };
+
+    async run(options: any) {
+        const keyPath = parseKeyPath(options.key);
+        const filepath = getConfigFilePath(
+            this.cli.name,
+            options.global ? 'global' : 'project',
+            this.projectRoot,
+            this.context.env,
+            this.projectContext?.configPath
+        );
+
+        // Editing the document keeps the comments and key order of the file
+        const doc = await readConfigDocument(filepath);
+        try {
+            doc.setIn(keyPath, parseConfigValue(String(options.value)));
+        } catch (e: any) {
+            this.error(`Cannot set '${options.key}' in ${filepath}: ${e.message}`);
+        }
+        await writeConfigDocument(filepath, doc);
+
+        this.success(`Set ${options.key} in ${filepath}`);
+    }
+}
@@ -0,0 +1,36 @@
+import { BaseCommand } from '../../BaseCommand.js';
+import { getConfigFilePath, parseKeyPath, readConfigDocument, writeConfigDocument } from '../../utils/config.js';
+
+export default class ConfigUnsetCommand extends BaseCommand {
+    static description = 'Remove a config key from the project (or user) config file.';
+    static skipConfigValidation = true;
+
+    static args = {
+        args: [
+            { name: 'key', required: true, description: 'Dotted key path, e.g. deploy.region' }
+        ],
+        options: [
+            { name: '--global', description: 'Remove it from the user config file' }
+        ]
+    };
+
+    async run(options: any) {
+        const keyPath = parseKeyPath(options.key);
+        const filepath = getConfigFilePath(
+            this.cli.name,
+            options.global ? 'global' : 'project',
+            this.projectRoot,
+            this.context.env,
+            this.projectContext?.configPath
+        );
+
+        const doc = await readConfigDocument(filepath);
+        if (!doc.hasIn(keyPath)) {
+            this.error(`Config key '${options.key}' is not set in ${filepath}.`);
+        }
+        doc.deleteIn(keyPath);
+        await writeConfigDocument(filepath, doc);
+
+        this.success(`Removed ${options.key} from ${filepath}`);
+    }
+}
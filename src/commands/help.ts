@@ -1,91 +1,171 @@
 import { BaseCommand } from '../BaseCommand.js';
+import { describeDeprecation } from '../CommandInterface.js';
+import { CommandTree, CommandNode } from '../CommandTree.js';
 import pc from 'picocolors';
+import { describeSchema, formatSchemaHint } from '../utils/schema.js';
+import { getOptionEnvName, GLOBAL_OPTIONS, VERSION_OPTION } from '../utils/options.js';
+import { formatSuggestion, suggestCommand } from '../utils/suggest.js';
+import { logger } from '../utils/logger.js';
 
 export default class HelpCommand extends BaseCommand {
     static description = 'Display help for commands.';
+    static skipConfigValidation = true;
 
     static args = {
         args: [
             { name: 'command...', required: false, description: 'Command name to get help for' }
         ],
-        options: []
+        options: [
+            { name: '--all', description: 'Include hidden commands' }
+        ]
     };
 
+    /**
+     * Help is printed even when the project or its config cannot be loaded.
+     */
+    async init() {
+        try {
+            await super.init();
+        } catch (e: any) {
+            logger.debug(`Showing help without the project config: ${e.message}`);
+        }
+    }
+
     async run(options: any) {
         const commandParts = options.command || [];
         const query = commandParts.join(' ');
 
         if (!query) {
             // General help
-            this.printGlobalHelp();
+            this.printGlobalHelp(!!options.all);
+            await this.printProfiles();
             return;
         }
 
-        // Search for specific command or namespace
+        // Search for specific command or namespace, accepting aliases (e.g. "module rm")
         const commands = this.cli.getCommands();
+        const resolved = new CommandTree(commands).resolve(commandParts);
+        const node = resolved.indexes.length === commandParts.length ? resolved.node : undefined;
 
         // Exact match?
-        const exactMatch = commands.find((c: any) => c.command === query);
+        const exactMatch = node?.command;
         if (exactMatch) {
-            // Try to find CAC command if it exists (e.g. top-level commands like 'init')
-            // For subcommands (e.g. 'module add'), CAC might only have 'module <subcommand>', 
-            // so cacCmd will be undefined for the exact query.
-            const cacCmd = this.cli.getRawCLI().commands.find((c: any) => c.name === query);
+            // Try to find the CAC command registered under the full command path (e.g. 'init', 'module add')
+            const cacCmd = this.cli.getRawCLI().commands.find((c: any) => c.name === exactMatch.command);
 
+            // Commands known from the manifest are imported for the details only their schemas hold
+            if (exactMatch.load) {
+                await exactMatch.load().catch(() => undefined);
+            }
             this.printCommandHelp(exactMatch, cacCmd);
+
+            // Parent commands (e.g. 'user' from user/index.ts) also list their subcommands
+            if (node && node.children.size > 0) {
+                this.info('  Subcommands:');
+                for (const [name, desc] of this.describeChildren(node, !!options.all)) {
+                    this.info(`    ${pc.cyan(name.padEnd(25))} ${desc}`);
+                }
+                this.info('');
+            }
             return;
         }
 
-        // Namespace match? (e.g. "module" matches "module add", "module remove")
-        const namespaceMatches = commands.filter((c: any) => c.command.startsWith(query + ' '));
-
-        if (namespaceMatches.length > 0) {
-            console.log(`\n  Commands for ${pc.bold(query)}:\n`);
-            for (const cmd of namespaceMatches) {
-                const name = cmd.command;
-                const desc = cmd.class.description || '';
-                console.log(`  ${pc.cyan(name.padEnd(20))} ${desc}`);
+        // Namespace match? (e.g. "module" lists "module add", "module remove"; "cloud db" lists "cloud db backup")
+        if (node && node.children.size > 0) {
+            this.info(`\n  Commands for ${pc.bold(node.path.join(' '))}:\n`);
+            for (const [name, desc] of this.describeChildren(node, !!options.all)) {
+                this.info(`  ${pc.cyan(name.padEnd(20))} ${desc}`);
             }
-            console.log('');
+            this.info('');
             return;
         }
 
-        this.error(`Unknown command: ${query}`);
+        const suggestion = suggestCommand(commands.filter((cmd: any) => !cmd.class.hidden), commandParts, resolved.node.path);
+        this.error(`Unknown command: ${query}` + (suggestion ? `. ${formatSuggestion(suggestion)}` : ''));
+    }
+
+    private describeChildren(node: CommandNode, all: boolean): [string, string][] {
+        return [...node.children.values()].filter(child => all || !child.command?.class.hidden).map(child => {
+            const hasChildren = child.children.size > 0;
+            const name = child.path.join(' ') + (hasChildren ? ' ...' : '');
+            const desc = child.command?.class.description || (hasChildren ? `Manage ${child.path.join(' ')} commands` : '');
+            return [name, desc + this.formatStatus(child.command?.class) + this.formatAliases(child.command?.class.aliases) + this.formatPlugin(child.command?.plugin)];
+        });
+    }
+
+    private formatAliases(aliases?: string[]): string {
+        return aliases && aliases.length > 0 ? pc.dim(` (aliases: ${aliases.join(', ')})`) : '';
+    }
+
+    private formatPlugin(plugin?: string): string {
+        return plugin ? pc.dim(` (plugin: ${plugin})`) : '';
     }
 
-    private printGlobalHelp() {
+    private formatStatus(CommandClass?: any): string {
+        const status = [
+            CommandClass?.hidden && 'hidden',
+            CommandClass?.deprecated && 'deprecated',
+            CommandClass?.experimental && 'experimental'
+        ].filter(Boolean);
+        return status.length > 0 ? pc.dim(` (${status.join(', ')})`) : '';
+    }
+
+    /**
+     * Lists every command, except hidden ones unless `all` is set.
+     */
+    private printGlobalHelp(all: boolean) {
         const commands = this.cli.getCommands();
         const bin = this.cli.name;
 
-        console.log('');
-        console.log(`  Usage: ${pc.cyan(bin)} <command> [options]`);
-        console.log('');
-        console.log('  Commands:');
-        console.log('');
+        this.info('');
+        this.info(`  Usage: ${pc.cyan(bin)} <command> [options]`);
+        this.info('');
+        this.info('  Commands:');
+        this.info('');
 
         for (const cmd of commands) {
+            if (cmd.class.hidden && !all) continue;
             const name = cmd.command;
             const desc = cmd.class.description || '';
-            console.log(`    ${pc.cyan(name.padEnd(25))} ${desc}`);
+            this.info(`    ${pc.cyan(name.padEnd(25))} ${desc}${this.formatStatus(cmd.class)}${this.formatAliases(cmd.class.aliases)}${this.formatPlugin(cmd.plugin)}`);
         }
 
-        console.log('');
-        console.log('  Options:');
-        console.log('');
-        console.log(`    ${pc.yellow('--help'.padEnd(25))} Display this message`);
-        console.log(`    ${pc.yellow('--version'.padEnd(25))} Display version number`);
-        console.log(`    ${pc.yellow('--root-dir <path>'.padEnd(25))} Override project root`);
-        console.log(`    ${pc.yellow('--debug'.padEnd(25))} Enable debug mode`);
-        console.log('');
+        this.info('');
+        this.info('  Options:');
+        this.info('');
+        for (const option of [...GLOBAL_OPTIONS, VERSION_OPTION]) {
+            this.info(`    ${pc.yellow(option.name.padEnd(25))} ${option.description}`);
+        }
+        this.info('');
+    }
+
+    /**
+     * Profiles defined in the config of the current project, marking the one that applies.
+     * Help is still printed when the project cannot be resolved.
+     */
+    private async printProfiles() {
+        const project = await this.cli.getProjectContext?.({
+            rootDir: this.globalOptions.rootDir,
+            project: this.globalOptions.project,
+            profile: this.globalOptions.profile
+        }).catch(() => undefined);
+        if (!project?.profiles?.length) return;
+
+        this.info('  Profiles:');
+        this.info('');
+        for (const name of project.profiles) {
+            this.info(`    ${pc.cyan(name)}${name === project.profile ? pc.dim(' (active)') : ''}`);
+        }
+        this.info('');
     }
 
     private printCommandHelp(loadedCommand: any, cacCmd?: any) {
         const CommandClass = loadedCommand.class;
 
         let usage = CommandClass.usage;
-        if (!usage && cacCmd) usage = cacCmd.rawName;
 
-        // Fallback: construct usage from args definition if usage is missing
+        // Construct usage from args definition if usage is missing.
+        // CAC's rawName is not used since all args are registered as optional there.
         if (!usage) {
             let tempUsage = loadedCommand.command;
             const args = CommandClass.args?.args || [];
@@ -98,38 +178,51 @@ export default class HelpCommand extends BaseCommand {
             usage = tempUsage;
         }
 
-        console.log('');
-        console.log(`  Usage: ${pc.cyan(usage)}`);
-        console.log('');
+        this.info('');
+        this.info(`  Usage: ${pc.cyan(usage)}`);
+        const aliases = CommandClass.aliases || [];
+        if (aliases.length > 0) {
+            this.info(`  Aliases: ${aliases.join(', ')}`);
+        }
+        if (loadedCommand.plugin) {
+            this.info(`  Plugin: ${loadedCommand.plugin}`);
+        }
+        if (CommandClass.deprecated) {
+            this.info(pc.yellow(`  Deprecated: ${describeDeprecation(this.cli.name, loadedCommand.command, CommandClass.deprecated)}`));
+        }
+        if (CommandClass.experimental) {
+            this.info(pc.yellow('  Experimental: enable it under `experimental` in the config.'));
+        }
+        this.info('');
 
         const description = CommandClass.description || (cacCmd && cacCmd.description) || '';
-        console.log(`  ${description}`);
-        console.log('');
+        this.info(`  ${description}`);
+        this.info('');
 
         // Arguments
         // Prefer class definition (or cacCmd definition if we wanted, but class is source of truth for our commands)
         const argsDef = CommandClass.args?.args;
         if (argsDef && Array.isArray(argsDef) && argsDef.length > 0) {
-            console.log('  Arguments:');
+            this.info('  Arguments:');
             for (const arg of argsDef) {
                 const name = arg.name;
                 const desc = arg.description || '';
+                const hint = arg.schema ? ` (${formatSchemaHint(arg.schema)})` : '';
                 const required = arg.required ? ' (required)' : '';
-                console.log(`    ${pc.cyan(name.padEnd(25))} ${desc}${pc.dim(required)}`);
+                this.info(`    ${pc.cyan(name.padEnd(25))} ${desc}${pc.dim(hint + required)}`);
             }
-            console.log('');
+            this.info('');
         }
 
         // Options
         const optionsList = [];
+        const classOptions = CommandClass.args?.options || [];
 
         if (cacCmd) {
             // If CAC command exists, use its parsed options (includes globals)
             optionsList.push(...cacCmd.options);
         } else {
             // Reconstruct options from Class + Globals
-            const classOptions = CommandClass.args?.options || [];
-
             for (const opt of classOptions) {
                 optionsList.push({
                     rawName: opt.name, // e.g. '--repo <url>'
@@ -138,22 +231,28 @@ export default class HelpCommand extends BaseCommand {
                 });
             }
 
-            // Append Global Options manually since they are always available
-            optionsList.push({ rawName: '--help', description: 'Display this message', config: {} });
-            optionsList.push({ rawName: '--version', description: 'Display version number', config: {} });
-            optionsList.push({ rawName: '--root-dir <path>', description: 'Override project root', config: {} });
-            optionsList.push({ rawName: '--debug', description: 'Enable debug mode', config: {} });
+            // Append the global options since they are always available
+            for (const option of GLOBAL_OPTIONS) {
+                optionsList.push({ rawName: option.name, description: option.description, config: {} });
+            }
         }
 
         if (optionsList.length > 0) {
-            console.log('  Options:');
+            this.info('  Options:');
             for (const opt of optionsList) {
                 const flags = opt.rawName.padEnd(25);
                 const desc = opt.description || '';
-                const def = opt.config?.default ? ` (default: ${opt.config.default})` : '';
-                console.log(`    ${pc.yellow(flags)} ${desc}${pc.dim(def)}`);
+                // Derive the value type and allowed values from the declared zod schema, if any
+                const classOption = classOptions.find((o: any) => o.name === opt.rawName);
+                const schema = classOption?.schema;
+                const hint = schema ? ` (${formatSchemaHint(schema)})` : '';
+                const defaultValue = opt.config?.default ?? (schema ? describeSchema(schema).default : undefined);
+                const def = defaultValue ? ` (default: ${defaultValue})` : '';
+                const envName = classOption ? getOptionEnvName(classOption, this.cli.getEnvPrefix?.()) : undefined;
+                const env = envName ? ` (env: ${envName})` : '';
+                this.info(`    ${pc.yellow(flags)} ${desc}${pc.dim(hint + def + env)}`);
             }
-            console.log('');
+            this.info('');
         }
     }
 }
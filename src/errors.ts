@@ -0,0 +1,114 @@
+/**
+ * Exit codes reported by the CLI, so that scripts can tell failures apart.
+ */
+export const ExitCode = {
+    Success: 0,
+    Error: 1,
+    Usage: 2,
+    NotInProject: 3,
+    Config: 4,
+    ExternalTool: 5,
+    // 128 + SIGINT, as shells report an interrupted command
+    Cancelled: 130
+} as const;
+
+export interface CLIErrorOptions {
+    exitCode?: number;
+    // Next step suggested to the user, printed below the message
+    hint?: string;
+    // Print the help of the command after the error
+    showHelp?: boolean;
+    cause?: unknown;
+}
+
+/**
+ * Base class of the errors the CLI knows how to render. Commands throw them (directly or through
+ * `this.error()`); the CLI prints the message and hint and turns the error into the exit code of the run.
+ */
+export class CLIError extends Error {
+    readonly exitCode: number;
+    readonly hint?: string;
+    readonly showHelp: boolean;
+
+    constructor(message: string, options: CLIErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'CLIError';
+        this.exitCode = options.exitCode ?? ExitCode.Error;
+        this.hint = options.hint;
+        this.showHelp = options.showHelp ?? false;
+    }
+}
+
+/**
+ * Invalid invocation: unknown command or option, missing or invalid argument.
+ * Followed by the help of the command unless `showHelp` is false.
+ */
+export class UsageError extends CLIError {
+    constructor(message: string, options: CLIErrorOptions = {}) {
+        super(message, { exitCode: ExitCode.Usage, showHelp: true, ...options });
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Missing or invalid configuration.
+ */
+export class ConfigError extends CLIError {
+    constructor(message: string, options: CLIErrorOptions = {}) {
+        super(message, { exitCode: ExitCode.Config, ...options });
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * A command requiring a project (`static requiresProject = true`) ran outside of one.
+ */
+export class NotInProjectError extends CLIError {
+    constructor(commandName: string, options: CLIErrorOptions = {}) {
+        super(`This command requires to be run within an app project (${commandName}.yml not found).`, {
+            exitCode: ExitCode.NotInProject,
+            hint: `Run it from a directory containing ${commandName}.yml, or point to one with --root-dir <path>.`,
+            ...options
+        });
+        this.name = 'NotInProjectError';
+    }
+}
+
+export interface ExternalToolErrorOptions extends CLIErrorOptions {
+    // Exit code of the external process
+    toolExitCode?: number;
+    stderr?: string;
+}
+
+/**
+ * An external program run by the command (git, npm, ...) failed.
+ */
+export class ExternalToolError extends CLIError {
+    readonly command: string;
+    readonly toolExitCode?: number;
+    readonly stderr?: string;
+
+    constructor(command: string, options: ExternalToolErrorOptions = {}) {
+        const { toolExitCode, stderr, ...rest } = options;
+        super(`Command failed: ${command}`, {
+            exitCode: ExitCode.ExternalTool,
+            // 127 is the shell's "command not found"
+            hint: toolExitCode === 127 ? `Make sure \`${command.split(' ')[0]}\` is installed and on your PATH.` : undefined,
+            ...rest
+        });
+        this.name = 'ExternalToolError';
+        this.command = command;
+        this.toolExitCode = toolExitCode;
+        this.stderr = stderr;
+    }
+}
+
+/**
+ * The user aborted the command, e.g. by cancelling a prompt.
+ */
+export class UserCancelledError extends CLIError {
+    constructor(message = 'Cancelled', options: CLIErrorOptions = {}) {
+        super(message, { exitCode: ExitCode.Cancelled, ...options });
+        this.name = 'UserCancelledError';
+    }
+}
@@ -0,0 +1,76 @@
+import type { CLI } from './CLI.js';
+import type { BaseCommand } from './BaseCommand.js';
+import type { ZodRawShape } from 'zod';
+import type { ProjectContext } from './utils/project.js';
+
+/**
+ * State of a command execution shared by all hooks. Hooks may replace or mutate `options`
+ * (the command is constructed and run with the result) and may end the execution early with `stop()`.
+ */
+export interface CommandHookContext {
+    readonly cli: CLI;
+    // Full command path, e.g. 'module add'
+    readonly command: string;
+    readonly commandClass: any;
+    // Parsed and validated arguments and options. Values set by a hook are validated once it returns.
+    options: Record<string, any>;
+    // Set once the command is constructed and initialized (from beforeRun on)
+    instance?: BaseCommand;
+    // Project of the run, shared with the command (see CLI.getProjectContext); unset in beforeInit
+    // when it cannot be resolved, which the command then reports
+    project?: ProjectContext;
+    projectRoot?: string | null;
+    workspaceRoot?: string | null;
+    // Merged config of the project, validated against the configSchema from beforeRun on
+    config?: any;
+    // Skips the remaining steps (including the command itself) and ends the run with `exitCode`
+    stop(exitCode?: number): void;
+    readonly stopped: boolean;
+    readonly exitCode: number;
+}
+
+export interface CLIHooks {
+    // Before the command is constructed and initialized, with the project resolved; may rewrite the options
+    beforeInit?(context: CommandHookContext): void | Promise<void>;
+    // After init (project root and config are resolved), before run
+    beforeRun?(context: CommandHookContext): void | Promise<void>;
+    // After the command ran successfully
+    afterRun?(context: CommandHookContext): void | Promise<void>;
+    // When the command or another hook failed. Calling `stop()` marks the error as handled;
+    // throwing replaces it.
+    onError?(error: unknown, context: CommandHookContext): void | Promise<void>;
+}
+
+export interface CLIPlugin {
+    name: string;
+    hooks?: CLIHooks;
+    // Directory of commands contributed by the plugin, scanned like `searchDirectories`
+    commandsDir?: string;
+    // Command path the plugin's commands are registered under (e.g. 'cloud'); merged with the
+    // CLI's own commands when unset, which win on conflicting names
+    namespace?: string;
+    // Top-level keys of the project config the plugin reads, added to the CLI's configSchema
+    configSchema?: ZodRawShape;
+}
+
+export function createHookContext(cli: CLI, command: string, commandClass: any, options: Record<string, any>): CommandHookContext {
+    let stopped = false;
+    let exitCode = 0;
+
+    return {
+        cli,
+        command,
+        commandClass,
+        options,
+        stop(code = 0) {
+            stopped = true;
+            exitCode = code;
+        },
+        get stopped() {
+            return stopped;
+        },
+        get exitCode() {
+            return exitCode;
+        }
+    };
+}
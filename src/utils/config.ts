@@ -1,23 +1,188 @@
 import { lilconfig, type Loader } from 'lilconfig';
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
-import YAML from 'yaml';
+import { pathToFileURL } from 'node:url';
+import { isDeepStrictEqual } from 'node:util';
+import YAML, { LineCounter } from 'yaml';
+import type { ZodTypeAny } from 'zod';
 import { logger } from './logger.js';
+import { ConfigError, NotInProjectError, UsageError } from '../errors.js';
+import { toEnvPrefix } from './options.js';
+import { findClosest, formatSuggestion } from './suggest.js';
+
+export type ConfigLayerName = 'global' | 'project' | 'local' | 'profile' | 'env';
+
+export interface ConfigLayer {
+    name: ConfigLayerName;
+    // File the layer was read from (none for the environment)
+    filepath?: string;
+    // Raw content of the file and of the files it extends, used to locate validation errors
+    sources?: Record<string, string>;
+    // File each value came from, when it extends other files
+    files?: Record<string, string>;
+    config: Record<string, any>;
+    // Environment variable each key path was read from (environment layer only)
+    variables?: Record<string, string>;
+    // Name of the selected profile (profile layer only)
+    profile?: string;
+    // Config version of the file before it was migrated in memory (project layer only)
+    migratedFrom?: number;
+}
+
+export interface ConfigOrigin {
+    layer: ConfigLayerName;
+    filepath?: string;
+    variable?: string;
+    // Profile the value was set by, under `profiles.<name>` in `filepath`
+    profile?: string;
+}
+
+export interface LayeredConfig {
+    config: any;
+    // Origin of each resolved value, keyed by its dotted path ('deploy.region')
+    origins: Record<string, ConfigOrigin>;
+    // Layers found, from lowest to highest precedence
+    layers: ConfigLayer[];
+    // Selected profile, and the names of those defined under `profiles`
+    profile?: string | null;
+    profiles?: string[];
+}
+
+// Files the `config` command edits
+export type ConfigScope = 'global' | 'project';
+
+// Formats of the project config a CLI accepts, searched in the order given
+export type ConfigFormat = 'yaml' | 'json' | 'js' | 'package.json';
+
+// Upgrades a config from the previous version; may mutate it or return a new object
+export type ConfigMigration = (config: Record<string, any>) => Record<string, any> | void;
+
+// Migrations keyed by the config version they upgrade to (`{ 2: fromV1, 3: fromV2 }`)
+export type ConfigMigrations = Record<number, ConfigMigration>;
+
+// Argument of a `{name}.config.js` default export that is a function
+export interface ConfigModuleContext {
+    commandName: string;
+    projectRoot: string;
+    env: NodeJS.ProcessEnv;
+}
+
+export interface LoadLayeredConfigOptions {
+    env: NodeJS.ProcessEnv;
+    schema?: ZodTypeAny;
+    // Environment variables not to read as config (e.g. those bound to command options)
+    excludeEnv?: readonly string[];
+    formats?: readonly ConfigFormat[];
+    // Profile selected on the command line (--profile); takes precedence over <NAME>_PROFILE and `defaultProfile`
+    profile?: string;
+    // Applied in memory to the project config when its `version` is older than the latest one
+    migrations?: ConfigMigrations;
+    // Reads the config file of the project root (default: readProjectConfigFile), e.g. from a cache
+    readProjectFile?: (rootDir: string) => Promise<ResolvedConfigFile | null>;
+}
+
+// Config file with its `extends` and `!include` references resolved
+export interface ResolvedConfigFile {
+    filepath: string;
+    config: any;
+    // File each value came from, keyed by its dotted path (only when the file extends others)
+    files: Record<string, string>;
+    sources: Record<string, string>;
+}
+
+/**
+ * Value of an `!include ./fragment.yml` tag, replaced by the content of the fragment once
+ * the including file is loaded.
+ */
+class ConfigInclude {
+    constructor(public readonly path: string) { }
+}
+
+const includeTag: YAML.ScalarTag = {
+    tag: '!include',
+    identify: (value) => value instanceof ConfigInclude,
+    resolve: (value) => new ConfigInclude(value),
+    stringify: (item) => String((item.value as ConfigInclude).path)
+};
+
+// `${env:NAME}` and `${config:key.path}` placeholders in string values
+const PLACEHOLDER = /\$\{(env|config):([^}]*)\}/g;
+
+export function parseYaml(content: string): any {
+    return YAML.parse(content, { customTags: [includeTag] });
+}
 
 export const loadYaml: Loader = (filepath, content) => {
-    return YAML.parse(content);
+    return parseYaml(content);
 };
 
-export async function findProjectRoot(commandName: string, startDir: string): Promise<string | null> {
-    const searchPlaces = [`${commandName}.yml`, `${commandName}.yaml`];
+export const loadJson: Loader = (filepath, content) => {
+    return JSON.parse(content);
+};
 
-    // We use lilconfig to find the file up the tree
-    const explorer = lilconfig(commandName, {
-        searchPlaces,
-        loaders: {
-            '.yml': loadYaml,
-            '.yaml': loadYaml,
+/**
+ * Imports a `{name}.config.js/mjs/ts` module (`.ts` needs a runtime that can import TypeScript).
+ * Returns its default export, which may be a function to call with a ConfigModuleContext.
+ */
+export const loadModule: Loader = async (filepath) => {
+    let module: any;
+    try {
+        module = await import(pathToFileURL(filepath).href);
+    } catch (e: any) {
+        if (e.code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+            throw new ConfigError(`Could not load ${filepath}: this runtime cannot import TypeScript.`, {
+                hint: 'Run the CLI under a TypeScript loader (e.g. tsx), or write the config as .js or .mjs.',
+                cause: e
+            });
+        }
+        throw new ConfigError(`Could not load ${filepath}: ${e.message}`, { cause: e });
+    }
+    return module.default ?? module;
+};
+
+const CONFIG_LOADERS: Record<string, Loader> = {
+    '.yml': loadYaml,
+    '.yaml': loadYaml,
+    '.json': loadJson,
+    '.js': loadModule,
+    '.mjs': loadModule,
+    '.ts': loadModule
+};
+
+/**
+ * File names the project config is searched under, in order. `package.json` holds it under
+ * a key named after the CLI.
+ */
+export function getConfigSearchPlaces(commandName: string, formats: readonly ConfigFormat[] = ['yaml']): string[] {
+    return formats.flatMap(format => {
+        switch (format) {
+            case 'yaml': return [`${commandName}.yml`, `${commandName}.yaml`];
+            case 'json': return [`${commandName}.json`];
+            case 'js': return [`${commandName}.config.js`, `${commandName}.config.mjs`, `${commandName}.config.ts`];
+            case 'package.json': return ['package.json'];
         }
     });
+}
+
+function createExplorer(commandName: string, formats?: readonly ConfigFormat[]) {
+    return lilconfig(commandName, {
+        searchPlaces: getConfigSearchPlaces(commandName, formats),
+        loaders: CONFIG_LOADERS
+    });
+}
+
+/**
+ * Calls the default export of a config module when it is a function.
+ */
+async function resolveConfigModule(config: any, context: ConfigModuleContext): Promise<any> {
+    return typeof config === 'function' ? config(context) : config;
+}
+
+export async function findProjectRoot(commandName: string, startDir: string, formats?: readonly ConfigFormat[]): Promise<string | null> {
+    // We use lilconfig to find the file up the tree
+    const explorer = createExplorer(commandName, formats);
 
     const result = await explorer.search(startDir);
     if (result) {
@@ -28,16 +193,752 @@ export async function findProjectRoot(commandName: string, startDir: string): Pr
     return null;
 }
 
-export async function loadConfig(commandName: string, rootDir: string): Promise<any> {
-    const searchPlaces = [`${commandName}.yml`, `${commandName}.yaml`];
-    const explorer = lilconfig(commandName, {
-        searchPlaces,
-        loaders: {
-            '.yml': loadYaml,
-            '.yaml': loadYaml,
-        }
-    });
+/**
+ * Loads the project config found from `rootDir`. When a schema is given, the config is validated
+ * and the parsed result (with the schema's defaults and transforms applied) is returned.
+ */
+export async function loadConfig(
+    commandName: string,
+    rootDir: string,
+    schema?: ZodTypeAny,
+    formats?: readonly ConfigFormat[],
+    migrations?: ConfigMigrations
+): Promise<any> {
+    const explorer = createExplorer(commandName, formats);
     const result = await explorer.search(rootDir);
     logger.debug(result ? `Loaded config from ${result.filepath}` : `No config found in ${rootDir}`);
-    return result ? result.config : {};
+
+    const context = { commandName, projectRoot: result ? path.dirname(result.filepath) : rootDir, env: process.env };
+    const resolved = result
+        ? await expandConfigFile((await resolveConfigModule(result.config, context)) ?? {}, result.filepath, [result.filepath])
+        : undefined;
+    let migrated = resolved?.config ?? {};
+    if (resolved && migrations) {
+        const migration = migrateConfig(resolved.config, migrations, resolved.filepath);
+        if (migration.from < migration.to) {
+            logger.warn(formatMigrationWarning(commandName, resolved.filepath, migration.from, migration.to));
+        }
+        migrated = migration.config;
+    }
+    const config = interpolateConfig(migrated, process.env);
+    if (!schema) return config;
+
+    const filepath = result?.filepath ?? path.join(rootDir, `${commandName}.yml`);
+    const source = result && /\.ya?ml$|\.json$/.test(filepath) ? await fs.readFile(result.filepath, 'utf8') : '';
+    return validateConfig(schema, config, filepath, source);
+}
+
+/**
+ * Latest config version: the highest version the migrations upgrade to (1 without migrations).
+ */
+export function getLatestConfigVersion(migrations: ConfigMigrations): number {
+    return Math.max(1, ...Object.keys(migrations).map(Number));
+}
+
+/**
+ * Upgrades a config to the latest version by applying, in order, the migrations above its
+ * `version` (1 when unset), and sets `version` to the latest one. The given config is not modified.
+ */
+export function migrateConfig(
+    config: Record<string, any>,
+    migrations: ConfigMigrations,
+    filepath: string
+): { config: Record<string, any>; from: number; to: number } {
+    const latest = getLatestConfigVersion(migrations);
+    const from = config.version ?? 1;
+    if (!Number.isInteger(from) || from < 1) {
+        throw new ConfigError(`Invalid config version '${from}' in ${filepath}: expected a positive integer.`);
+    }
+    if (from > latest) {
+        throw new ConfigError(`${filepath} uses config version ${from}, but this version of the CLI supports up to ${latest}.`, {
+            hint: 'Update the CLI to use this config.'
+        });
+    }
+    if (from === latest) return { config, from, to: latest };
+
+    let migrated = structuredClone(config);
+    for (let version = from + 1; version <= latest; version++) {
+        const migration = migrations[version];
+        if (!migration) continue;
+        try {
+            migrated = migration(migrated) ?? migrated;
+        } catch (e: any) {
+            throw new ConfigError(`Could not migrate ${filepath} to config version ${version}: ${e.message}`, { cause: e });
+        }
+    }
+    return { config: { ...migrated, version: latest }, from, to: latest };
+}
+
+/**
+ * Warning shown while a config file is only migrated in memory.
+ */
+export function formatMigrationWarning(commandName: string, filepath: string, from: number, to: number): string {
+    return `${path.basename(filepath)} uses config version ${from}; it was migrated to version ${to} in memory. ` +
+        `Run \`${commandName} config migrate\` to update the file.`;
+}
+
+/**
+ * Directory of the user-global config: `$XDG_CONFIG_HOME/<name>`, or `~/.config/<name>`.
+ */
+export function getGlobalConfigDir(commandName: string, env: NodeJS.ProcessEnv): string {
+    const configHome = env.XDG_CONFIG_HOME || path.join(env.HOME || os.homedir(), '.config');
+    return path.join(configHome, commandName);
+}
+
+/**
+ * Reads `<basePath>.yml` (or `.yaml`) with its references resolved. Returns null when neither exists.
+ */
+async function readYamlFile(basePath: string): Promise<ResolvedConfigFile | null> {
+    for (const filepath of [`${basePath}.yml`, `${basePath}.yaml`]) {
+        let source: string;
+        try {
+            source = await fs.readFile(filepath, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') continue;
+            throw new ConfigError(`Could not read ${filepath}: ${e.message}`, { cause: e });
+        }
+
+        const file = await parseConfigFile(filepath, source, []);
+        if (!isPlainObject(file.config)) {
+            throw new ConfigError(`Invalid config in ${filepath}: expected a mapping of keys to values.`);
+        }
+        return file;
+    }
+    return null;
+}
+
+/**
+ * Reads the project config from the first search place of `rootDir` that holds one (see
+ * getConfigSearchPlaces), through the same loaders as findProjectRoot.
+ */
+export async function readProjectConfigFile(
+    commandName: string,
+    rootDir: string,
+    formats: readonly ConfigFormat[] | undefined,
+    env: NodeJS.ProcessEnv
+): Promise<ResolvedConfigFile | null> {
+    for (const place of getConfigSearchPlaces(commandName, formats)) {
+        const filepath = path.join(rootDir, place);
+        let source: string;
+        try {
+            source = await fs.readFile(filepath, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') continue;
+            throw new ConfigError(`Could not read ${filepath}: ${e.message}`, { cause: e });
+        }
+
+        let file: ResolvedConfigFile;
+        if (place === 'package.json') {
+            const config = loadJson(filepath, source)?.[commandName];
+            if (config === undefined) continue;
+            file = await expandConfigFile(config, filepath, [filepath]);
+        } else if (/\.ya?ml$|\.json$/.test(place)) {
+            // JSON is parsed as YAML, which locates validation errors the same way
+            file = await parseConfigFile(filepath, source, []);
+        } else {
+            const config = await resolveConfigModule(await loadModule(filepath, source), { commandName, projectRoot: rootDir, env });
+            file = await expandConfigFile(config ?? {}, filepath, [filepath]);
+        }
+
+        if (!isPlainObject(file.config)) {
+            throw new ConfigError(`Invalid config in ${filepath}: expected a mapping of keys to values.`);
+        }
+        return file;
+    }
+    return null;
+}
+
+/**
+ * Reads, parses and resolves a config file. `chain` lists the files that led to it through
+ * `extends` and `!include`, to detect cycles and name them in errors.
+ */
+async function readConfigFile(filepath: string, chain: readonly string[]): Promise<ResolvedConfigFile> {
+    if (chain.includes(filepath)) {
+        throw new ConfigError(`Circular config reference: ${[...chain, filepath].join(' -> ')}`);
+    }
+
+    let source: string;
+    try {
+        source = await fs.readFile(filepath, 'utf8');
+    } catch (e: any) {
+        const from = chain.length > 0 ? ` (referenced from ${chain.join(' -> ')})` : '';
+        const reason = e.code === 'ENOENT' ? 'file not found' : e.message;
+        throw new ConfigError(`Could not read ${filepath}${from}: ${reason}`, { cause: e });
+    }
+
+    return parseConfigFile(filepath, source, chain);
+}
+
+async function parseConfigFile(filepath: string, source: string, chain: readonly string[]): Promise<ResolvedConfigFile> {
+    let config: any;
+    try {
+        config = parseYaml(source) ?? {};
+    } catch (e: any) {
+        const position = e.linePos?.[0];
+        const location = position ? `${filepath}:${position.line}:${position.col}` : filepath;
+        throw new ConfigError(`Could not parse ${location}: ${e.message.split('\n')[0]}`, { cause: e });
+    }
+
+    const file = await expandConfigFile(config, filepath, [...chain, filepath]);
+    file.sources[filepath] = source;
+    return file;
+}
+
+/**
+ * Replaces the `!include` tags of a parsed file by their content and merges the files it
+ * `extends` below its own values (in order, when a list is given). Paths are relative to the file.
+ */
+async function expandConfigFile(config: any, filepath: string, chain: readonly string[]): Promise<ResolvedConfigFile> {
+    const sources: Record<string, string> = {};
+    const resolve = async (reference: string): Promise<ResolvedConfigFile> => {
+        const file = await readConfigFile(path.resolve(path.dirname(filepath), reference), chain);
+        Object.assign(sources, file.sources);
+        return file;
+    };
+
+    const expandIncludes = async (value: any): Promise<any> => {
+        if (value instanceof ConfigInclude) return (await resolve(value.path)).config;
+        if (Array.isArray(value)) return Promise.all(value.map(expandIncludes));
+        if (isPlainObject(value)) {
+            const expanded: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) expanded[key] = await expandIncludes(item);
+            return expanded;
+        }
+        return value;
+    };
+
+    const expanded = await expandIncludes(config);
+    if (!isPlainObject(expanded) || expanded.extends === undefined) {
+        return { filepath, config: expanded, files: {}, sources };
+    }
+
+    const { extends: parents, ...own } = expanded;
+    const references = Array.isArray(parents) ? parents : [parents];
+    if (references.some(reference => typeof reference !== 'string')) {
+        throw new ConfigError(`Invalid extends in ${filepath}: expected a file path or a list of file paths.`);
+    }
+
+    const merged: Record<string, any> = {};
+    const files: Record<string, string> = {};
+    for (const reference of references) {
+        const parent = await resolve(reference);
+        if (!isPlainObject(parent.config)) {
+            throw new ConfigError(`Invalid config in ${parent.filepath} (extended by ${chain.join(' -> ')}): expected a mapping of keys to values.`);
+        }
+        mergeLayer(merged, parent.config, files, keyPath => parent.files[keyPath] ?? parent.filepath);
+    }
+    mergeLayer(merged, own, files, () => filepath);
+
+    return { filepath, config: merged, files, sources };
+}
+
+/**
+ * Replaces `${env:NAME}` and `${config:key.path}` placeholders in the string values of a config.
+ * A value that is a single placeholder takes the referenced value as is (keeping numbers, lists, ...).
+ * Placeholders are resolved when their key is first read, so that an unset variable only fails the
+ * commands using that key. `describe` names where a key was set, for errors.
+ */
+export function interpolateConfig(config: any, env: NodeJS.ProcessEnv, describe: (keyPath: string) => string | undefined = () => undefined): any {
+    const resolving: string[] = [];
+
+    const where = (keyPath: string) => {
+        const location = describe(keyPath);
+        return ` (in ${keyPath}${location ? ` of ${location}` : ''})`;
+    };
+
+    const lookup = (kind: string, name: string, keyPath: string): any => {
+        if (kind === 'env') {
+            if (env[name] === undefined) throw new ConfigError(`Environment variable ${name} is not set${where(keyPath)}.`);
+            return env[name];
+        }
+        const value = getConfigValue(config, name.split('.'));
+        if (value === undefined) throw new ConfigError(`Unknown config key '${name}'${where(keyPath)}.`);
+        return interpolate(value, name);
+    };
+
+    const interpolateString = (value: string, keyPath: string): any => {
+        if (!value.includes('${')) return value;
+        if (resolving.includes(keyPath)) {
+            throw new ConfigError(`Circular config reference: ${[...resolving.slice(resolving.indexOf(keyPath)), keyPath].join(' -> ')}`);
+        }
+
+        resolving.push(keyPath);
+        try {
+            const single = value.match(/^\$\{(env|config):([^}]*)\}$/);
+            if (single) return lookup(single[1], single[2], keyPath);
+            return value.replace(PLACEHOLDER, (_match, kind: string, name: string) => {
+                const resolved = lookup(kind, name, keyPath);
+                return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+            });
+        } finally {
+            resolving.pop();
+        }
+    };
+
+    const interpolate = (value: any, keyPath: string): any => {
+        if (typeof value === 'string') return interpolateString(value, keyPath);
+        if (!Array.isArray(value) && !isPlainObject(value)) return value;
+
+        const target: any = Array.isArray(value) ? [] : {};
+        for (const [key, item] of Object.entries(value)) {
+            const itemPath = keyPath ? `${keyPath}.${key}` : key;
+            if (typeof item === 'string' && item.includes('${')) {
+                defineLazyValue(target, key, () => interpolateString(item, itemPath));
+            } else {
+                target[key] = interpolate(item, itemPath);
+            }
+        }
+        return target;
+    };
+
+    return interpolate(config, '');
+}
+
+/**
+ * Defines a property computed on first read. Assigning it replaces the value.
+ */
+function defineLazyValue(target: any, key: string, compute: () => any) {
+    let value: any;
+    let computed = false;
+    Object.defineProperty(target, key, {
+        enumerable: true,
+        configurable: true,
+        get: () => {
+            if (!computed) {
+                value = compute();
+                computed = true;
+            }
+            return value;
+        },
+        set: (newValue: any) => {
+            value = newValue;
+            computed = true;
+        }
+    });
+}
+
+/**
+ * Reads the `<PREFIX>_*` environment variables as config. `__` separates nested keys and names are
+ * camelCased (`MY_CLI_DEPLOY__API_URL` -> `deploy.apiUrl`). Scalars are parsed as YAML, so numbers
+ * and booleans keep their type.
+ */
+export function readEnvConfig(prefix: string, env: NodeJS.ProcessEnv, excludeEnv: readonly string[] = []): ConfigLayer {
+    const config: Record<string, any> = {};
+    const variables: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(env)) {
+        if (value === undefined || !name.startsWith(`${prefix}_`) || excludeEnv.includes(name)) continue;
+
+        const keyPath = name.slice(prefix.length + 1).split('__').map(segment =>
+            segment.toLowerCase().replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase())
+        );
+        if (keyPath.some(key => !key)) continue;
+
+        let target = config;
+        for (const key of keyPath.slice(0, -1)) {
+            if (!isPlainObject(target[key])) target[key] = {};
+            target = target[key];
+        }
+        target[keyPath[keyPath.length - 1]] = parseEnvConfigValue(value);
+        variables[keyPath.join('.')] = name;
+    }
+
+    return { name: 'env', config, variables };
+}
+
+function parseEnvConfigValue(value: string): any {
+    try {
+        const parsed = YAML.parse(value);
+        return parsed !== null && typeof parsed === 'object' ? value : parsed ?? value;
+    } catch {
+        return value;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges `source` into `target`: mappings are merged key by key, other values (including
+ * lists) replace what was there. Records the origin of every value written.
+ */
+function mergeLayer<T>(
+    target: Record<string, any>,
+    source: Record<string, any>,
+    origins: Record<string, T>,
+    getOrigin: (keyPath: string) => T,
+    prefix: string[] = []
+): void {
+    for (const [key, value] of Object.entries(source)) {
+        const keyPath = [...prefix, key].join('.');
+        if (isPlainObject(value)) {
+            if (!isPlainObject(target[key])) {
+                target[key] = {};
+                clearOrigins(origins, keyPath);
+            }
+            mergeLayer(target[key], value, origins, getOrigin, [...prefix, key]);
+        } else {
+            target[key] = value;
+            clearOrigins(origins, keyPath);
+            origins[keyPath] = getOrigin(keyPath);
+        }
+    }
+}
+
+function clearOrigins(origins: Record<string, unknown>, keyPath: string): void {
+    for (const key of Object.keys(origins)) {
+        if (key === keyPath || key.startsWith(`${keyPath}.`)) delete origins[key];
+    }
+}
+
+/**
+ * Origin of the value at `keyPath`: its own, else that of a value below it, else that of the
+ * closest parent set as a whole.
+ */
+export function findConfigOrigin(origins: Record<string, ConfigOrigin>, keyPath: readonly PropertyKey[]): ConfigOrigin | undefined {
+    const dotted = keyPath.map(String).join('.');
+    if (origins[dotted]) return origins[dotted];
+
+    const nested = Object.keys(origins).find(key => dotted === '' || key.startsWith(`${dotted}.`));
+    if (nested) return origins[nested];
+
+    for (let depth = keyPath.length - 1; depth > 0; depth--) {
+        const parent = origins[keyPath.slice(0, depth).map(String).join('.')];
+        if (parent) return parent;
+    }
+    return undefined;
+}
+
+/**
+ * Describes an origin for humans, e.g. `project (/work/site/app.yml)` or `env (APP_REGION)`.
+ */
+export function describeConfigOrigin(origin: ConfigOrigin): string {
+    const layer = origin.profile ? `${origin.layer} ${origin.profile}` : origin.layer;
+    const detail = origin.filepath ?? origin.variable;
+    return detail ? `${layer} (${detail})` : layer;
+}
+
+/**
+ * Name of the profile to apply: the one given on the command line, else `<NAME>_PROFILE`, else the
+ * `defaultProfile` key. Throws when it is not defined under `profiles`; a profile set in the
+ * environment is ignored when the config defines none.
+ */
+function selectProfile(config: Record<string, any>, origins: Record<string, ConfigOrigin>, selected: string | undefined, variable: string, env: NodeJS.ProcessEnv): string | null {
+    const profiles = config.profiles ?? {};
+    if (!isPlainObject(profiles) || Object.values(profiles).some(profile => !isPlainObject(profile))) {
+        throw new ConfigError(`Invalid config: 'profiles' must map profile names to config values (in ${describeConfigOrigin(findConfigOrigin(origins, ['profiles'])!)}).`);
+    }
+
+    const names = Object.keys(profiles);
+    let name = selected;
+    let source = '--profile';
+    if (name === undefined && env[variable] !== undefined && env[variable] !== '') {
+        if (names.length === 0) return null;
+        name = env[variable];
+        source = variable;
+    }
+    if (name === undefined && config.defaultProfile !== undefined) {
+        name = String(config.defaultProfile);
+        source = `defaultProfile in ${describeConfigOrigin(findConfigOrigin(origins, ['defaultProfile'])!)}`;
+    }
+    if (name === undefined) return null;
+    if (names.includes(name)) return name;
+
+    const suggestion = findClosest(name, names);
+    const options = { hint: suggestion ? formatSuggestion(suggestion) : `Available profiles: ${names.join(', ') || 'none'}.` };
+    if (source === '--profile') {
+        throw new UsageError(`Unknown profile '${name}'.`, { ...options, showHelp: false });
+    }
+    throw new ConfigError(`Unknown profile '${name}' (from ${source}).`, options);
+}
+
+/**
+ * Loads the config layers and deep-merges them, from lowest to highest precedence:
+ * the user-global `config.yml`, the project config (`{name}.yml` or another format accepted by
+ * `formats`), the untracked `{name}.local.yml`,
+ * the entry of `profiles` selected by `--profile`, `<NAME>_PROFILE` or `defaultProfile`,
+ * and the `<NAME>_*` environment variables. Project layers are skipped outside a project.
+ * Placeholders are interpolated once the layers are merged, so `${config:...}` sees the final values.
+ * When a schema is given, the merged config is validated and its parsed result returned.
+ */
+export async function loadLayeredConfig(commandName: string, rootDir: string | null, options: LoadLayeredConfigOptions): Promise<LayeredConfig> {
+    const layers: ConfigLayer[] = [];
+
+    const global = await readYamlFile(path.join(getGlobalConfigDir(commandName, options.env), 'config'));
+    if (global) layers.push({ name: 'global', ...global });
+
+    if (rootDir) {
+        const project = options.readProjectFile
+            ? await options.readProjectFile(rootDir)
+            : await readProjectConfigFile(commandName, rootDir, options.formats, options.env);
+        if (project) {
+            const layer: ConfigLayer = { name: 'project', ...project };
+            if (options.migrations) {
+                const migration = migrateConfig(project.config, options.migrations, project.filepath);
+                if (migration.from < migration.to) {
+                    layer.config = migration.config;
+                    layer.migratedFrom = migration.from;
+                }
+            }
+            layers.push(layer);
+        }
+
+        const local = await readYamlFile(path.join(rootDir, `${commandName}.local`));
+        if (local) layers.push({ name: 'local', ...local });
+    }
+
+    const config: Record<string, any> = {};
+    const origins: Record<string, ConfigOrigin> = {};
+    for (const layer of layers) {
+        mergeLayer(config, layer.config, origins, keyPath => ({
+            layer: layer.name,
+            filepath: layer.files?.[keyPath] ?? layer.filepath,
+            variable: layer.variables?.[keyPath]
+        }));
+    }
+
+    // The selected profile is merged over the config files and below the environment. Only its
+    // values are kept, so placeholders in the other profiles are never resolved.
+    const prefix = toEnvPrefix(commandName);
+    const profileVariable = `${prefix}_PROFILE`;
+    const profile = selectProfile(config, origins, options.profile, profileVariable, options.env);
+    const profiles = Object.keys(config.profiles ?? {});
+    if (profile) {
+        const profileOrigins = { ...origins };
+        const layer: ConfigLayer = { name: 'profile', profile, config: structuredClone(config.profiles[profile]) };
+        layers.push(layer);
+        mergeLayer<ConfigOrigin>(config, layer.config, origins, keyPath => ({
+            ...findConfigOrigin(profileOrigins, ['profiles', profile, ...keyPath.split('.')]),
+            layer: 'profile',
+            profile
+        }));
+    }
+    delete config.profiles;
+    delete config.defaultProfile;
+    clearOrigins(origins, 'profiles');
+    clearOrigins(origins, 'defaultProfile');
+
+    const envLayer = readEnvConfig(prefix, options.env, [...(options.excludeEnv ?? []), profileVariable]);
+    if (Object.keys(envLayer.config).length > 0) {
+        layers.push(envLayer);
+        mergeLayer<ConfigOrigin>(config, envLayer.config, origins, keyPath => ({ layer: 'env', variable: envLayer.variables?.[keyPath] }));
+    }
+
+    for (const [keyPath, origin] of Object.entries(origins)) {
+        logger.debug(`Config ${keyPath} from ${describeConfigOrigin(origin)}`);
+    }
+
+    const layered: LayeredConfig = {
+        config: interpolateConfig(config, options.env, keyPath => {
+            const origin = findConfigOrigin(origins, keyPath.split('.'));
+            return origin && describeConfigOrigin(origin);
+        }),
+        origins,
+        layers,
+        profile,
+        profiles
+    };
+    if (options.schema) {
+        layered.config = validateLayeredConfig(options.schema, layered);
+    }
+    return layered;
+}
+
+/**
+ * Position (1-based) of the key at `keyPath` in a YAML source. Falls back to the closest parent
+ * present in the document; undefined when the document is empty.
+ */
+export function locateYamlPath(source: string, keyPath: readonly PropertyKey[]): { line: number; col: number } | undefined {
+    const lineCounter = new LineCounter();
+    const doc = YAML.parseDocument(source, { lineCounter });
+
+    let node: any = doc.contents;
+    let offset: number | undefined = node?.range?.[0];
+    for (const segment of keyPath) {
+        if (YAML.isMap(node)) {
+            const pair: any = node.items.find((item: any) => String(YAML.isScalar(item.key) ? item.key.value : item.key) === String(segment));
+            if (!pair) break;
+            offset = pair.key?.range?.[0] ?? offset;
+            node = pair.value;
+        } else if (YAML.isSeq(node)) {
+            const item: any = node.items[Number(segment)];
+            if (!item) break;
+            offset = item.range?.[0] ?? offset;
+            node = item;
+        } else {
+            break;
+        }
+    }
+
+    return offset === undefined ? undefined : lineCounter.linePos(offset);
+}
+
+/**
+ * Validates a loaded config against a schema. Throws a ConfigError listing every issue with the
+ * file path and the line/column of the offending key (`app.yml:3:5`).
+ */
+export function validateConfig(schema: ZodTypeAny, config: any, filepath: string, source: string): any {
+    return parseConfig(schema, config, ` in ${path.basename(filepath)}`, keyPath => {
+        const position = locateYamlPath(source, keyPath);
+        return position ? `${filepath}:${position.line}:${position.col}` : filepath;
+    });
+}
+
+/**
+ * Validates a merged config against a schema. Issues are located in the layer that supplied the
+ * offending value: its file position, or its environment variable.
+ */
+export function validateLayeredConfig(schema: ZodTypeAny, layered: LayeredConfig): any {
+    return parseConfig(schema, layered.config, '', keyPath => {
+        const origin = findConfigOrigin(layered.origins, keyPath);
+        if (!origin) return undefined;
+        if (origin.variable) return origin.variable;
+
+        const source = layered.layers.find(layer => layer.sources?.[origin.filepath as string] !== undefined)?.sources?.[origin.filepath as string] ?? '';
+        const position = locateYamlPath(source, origin.profile ? ['profiles', origin.profile, ...keyPath] : keyPath);
+        return position ? `${origin.filepath}:${position.line}:${position.col}` : origin.filepath;
+    });
+}
+
+function parseConfig(
+    schema: ZodTypeAny,
+    config: any,
+    where: string,
+    locate: (keyPath: PropertyKey[]) => string | undefined
+): any {
+    const result = schema.safeParse(config);
+    if (result.success) return result.data;
+
+    const issues = result.error.issues.map(issue => {
+        // Unknown keys are reported on their parent: point to the first of them instead
+        const keyPath = issue.code === 'unrecognized_keys' ? [...issue.path, issue.keys[0]] : issue.path;
+        const location = locate(keyPath);
+        const key = issue.path.length > 0 ? `${issue.path.join('.')}:` : '';
+        return `  ${[location, key].filter(Boolean).join(' ')} ${issue.message}`;
+    });
+
+    throw new ConfigError(`Invalid config:\n${issues.join('\n')}`, {
+        hint: `Fix the ${issues.length === 1 ? 'value' : 'values'} above${where}.`
+    });
+}
+
+/**
+ * Splits a dotted key path ('deploy.region') into its keys.
+ */
+export function parseKeyPath(key: string): string[] {
+    const keyPath = key.split('.');
+    if (keyPath.some(segment => segment.trim() === '')) {
+        throw new UsageError(`Invalid config key '${key}'.`, { hint: 'Use a dotted key path, e.g. deploy.region.' });
+    }
+    return keyPath;
+}
+
+export function getConfigValue(config: any, keyPath: readonly string[]): any {
+    let value = config;
+    for (const key of keyPath) {
+        if (value === null || typeof value !== 'object') return undefined;
+        value = value[key];
+    }
+    return value;
+}
+
+/**
+ * Parses a value given on the command line as YAML, so `3`, `true` and `[a, b]` keep their type.
+ * Anything that is not valid YAML is kept as a string.
+ */
+export function parseConfigValue(value: string): any {
+    try {
+        return YAML.parse(value) ?? value;
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * File of a config scope: the user-global `config.yml`, or the project's config file. The project
+ * file in use (`configPath`) is edited as is when it is YAML or JSON; without one, `{name}.yml`
+ * (which may not exist yet). For the global scope an existing `.yaml` file is used as is;
+ * otherwise the `.yml` file.
+ */
+export function getConfigFilePath(
+    commandName: string,
+    scope: ConfigScope,
+    rootDir: string | null,
+    env: NodeJS.ProcessEnv,
+    configPath: string | null = null
+): string {
+    if (scope === 'project' && !rootDir) {
+        throw new NotInProjectError(commandName, { hint: 'Use --global to edit your user config instead.' });
+    }
+
+    if (scope === 'project' && configPath) {
+        // Writing a new {name}.yml next to it would take precedence over the existing file
+        if (!/\.(ya?ml|json)$/.test(configPath) || path.basename(configPath) === 'package.json') {
+            throw new ConfigError(`Cannot edit ${configPath}: only YAML and JSON config files can be rewritten.`, {
+                hint: 'Edit the file by hand.'
+            });
+        }
+        return configPath;
+    }
+
+    const basePath = scope === 'global'
+        ? path.join(getGlobalConfigDir(commandName, env), 'config')
+        : path.join(rootDir as string, commandName);
+
+    return !existsSync(`${basePath}.yml`) && existsSync(`${basePath}.yaml`) ? `${basePath}.yaml` : `${basePath}.yml`;
+}
+
+/**
+ * Reads a config file as a YAML document, which keeps its comments and key order when edited.
+ * A missing file reads as an empty document.
+ */
+export async function readConfigDocument(filepath: string): Promise<YAML.Document> {
+    let source = '';
+    try {
+        source = await fs.readFile(filepath, 'utf8');
+    } catch (e: any) {
+        if (e.code !== 'ENOENT') throw new ConfigError(`Could not read ${filepath}: ${e.message}`, { cause: e });
+    }
+
+    const doc = YAML.parseDocument(source);
+    if (doc.errors.length > 0) {
+        const error = doc.errors[0];
+        const position = error.linePos?.[0];
+        const location = position ? `${filepath}:${position.line}:${position.col}` : filepath;
+        throw new ConfigError(`Could not parse ${location}: ${error.message.split('\n')[0]}`, { cause: error });
+    }
+    return doc;
+}
+
+/**
+ * Applies the differences between two versions of a config to its document, setting and deleting
+ * only the keys that changed so that the comments and order of the others are kept.
+ */
+export function updateConfigDocument(doc: YAML.Document, before: unknown, after: unknown, keyPath: string[] = []): void {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        for (const key of Object.keys(before)) {
+            if (!(key in after)) doc.deleteIn([...keyPath, key]);
+        }
+        for (const [key, value] of Object.entries(after)) {
+            updateConfigDocument(doc, before[key], value, [...keyPath, key]);
+        }
+    } else if (!isDeepStrictEqual(before, after)) {
+        doc.setIn(keyPath, after);
+    }
+}
+
+/**
+ * Content of a config document for its file: JSON for `.json` files, YAML otherwise.
+ */
+export function formatConfigDocument(filepath: string, doc: YAML.Document): string {
+    return filepath.endsWith('.json') ? `${JSON.stringify(doc.toJS() ?? {}, null, 2)}\n` : doc.toString();
+}
+
+/**
+ * Writes a config document back to its file, as JSON for `.json` files.
+ */
+export async function writeConfigDocument(filepath: string, doc: YAML.Document): Promise<void> {
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, formatConfigDocument(filepath, doc));
 }
@@ -0,0 +1,108 @@
+import { format } from 'node:util';
+import readline from 'node:readline';
+
+/**
+ * Destination of everything the CLI and its commands print.
+ */
+export interface Output {
+    // Regular output (stdout)
+    log(...args: any[]): void;
+    // Errors and diagnostics (stderr)
+    error(...args: any[]): void;
+}
+
+/**
+ * Environment a command runs in. Outside of `CLI.run()` this is the current process.
+ */
+export interface ExecutionContext {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    stdin: NodeJS.ReadableStream;
+    output: Output;
+    // Reads the next line of a provided stdin; unset when prompting the terminal
+    readLine?: () => Promise<string>;
+}
+
+/**
+ * Prints through the console, resolved at call time so that spies and patches apply.
+ */
+export const consoleOutput: Output = {
+    log: (...args: any[]) => console.log(...args),
+    error: (...args: any[]) => console.error(...args)
+};
+
+export function createProcessContext(): ExecutionContext {
+    return {
+        cwd: process.cwd(),
+        env: process.env,
+        stdin: process.stdin,
+        output: consoleOutput
+    };
+}
+
+/**
+ * Collects printed lines, forwarding them to the given streams (if any) as they are written.
+ */
+export class CapturingOutput implements Output {
+    stdout = '';
+    stderr = '';
+
+    constructor(
+        private stdoutStream?: NodeJS.WritableStream,
+        private stderrStream?: NodeJS.WritableStream
+    ) { }
+
+    log(...args: any[]) {
+        const line = format(...args) + '\n';
+        this.stdout += line;
+        this.stdoutStream?.write(line);
+    }
+
+    error(...args: any[]) {
+        const line = format(...args) + '\n';
+        this.stderr += line;
+        this.stderrStream?.write(line);
+    }
+}
+
+/**
+ * Prefixes every printed line (e.g. with the project a command runs for) before forwarding it.
+ */
+export class PrefixedOutput implements Output {
+    constructor(private target: Output, private prefix: string) { }
+
+    log(...args: any[]) {
+        this.target.log(this.prefixLines(format(...args)));
+    }
+
+    error(...args: any[]) {
+        this.target.error(this.prefixLines(format(...args)));
+    }
+
+    private prefixLines(text: string): string {
+        return text.split('\n').map(line => `${this.prefix} ${line}`.trimEnd()).join('\n');
+    }
+}
+
+/**
+ * Reads an input stream line by line. The stream is only consumed once the first line is requested;
+ * an empty string is returned once it has ended.
+ */
+export function createLineReader(input: NodeJS.ReadableStream) {
+    let rl: readline.Interface | undefined;
+    let lines: AsyncIterator<string> | undefined;
+
+    return {
+        async next(): Promise<string> {
+            if (!rl) {
+                rl = readline.createInterface({ input, terminal: false });
+                lines = rl[Symbol.asyncIterator]();
+            }
+            const result = await lines!.next();
+            return result.done ? '' : result.value;
+        },
+        close() {
+            rl?.close();
+        }
+    };
+}
@@ -1,4 +1,5 @@
 import { consola, LogLevels } from 'consola';
+import type { Output } from './io.js';
 
 export const logger = consola.create({
     defaults: {
@@ -10,3 +11,30 @@ export const logger = consola.create({
 export function setDebugMode(enabled: boolean) {
     logger.level = enabled ? LogLevels.debug : LogLevels.info;
 }
+
+/**
+ * Prints the logs through `output` (errors and warnings as errors) until the returned function is
+ * called. That function also restores the log level, so that `--debug` only applies to one run.
+ */
+export function captureLogs(output: Output): () => void {
+    const { stdout, stderr } = logger.options;
+    const level = logger.level;
+    logger.options.stdout = toStream(text => output.log(text));
+    logger.options.stderr = toStream(text => output.error(text));
+
+    return () => {
+        logger.options.stdout = stdout;
+        logger.options.stderr = stderr;
+        logger.level = level;
+    };
+}
+
+// Reporters write whole lines, newline included, which the output adds back
+function toStream(print: (text: string) => void): NodeJS.WriteStream {
+    return {
+        write(data: string) {
+            print(data.replace(/\n$/, ''));
+            return true;
+        }
+    } as NodeJS.WriteStream;
+}
@@ -0,0 +1,188 @@
+import { CommandOption } from '../CommandInterface.js';
+import { getOptionKey } from './schema.js';
+
+export type OptionSource = 'flag' | 'env' | 'config' | 'default';
+
+export interface ResolveOptionValuesContext {
+    // Command line tokens the options were parsed from
+    argv: readonly string[];
+    env: NodeJS.ProcessEnv;
+    // Prefix of the automatic environment bindings (e.g. 'MY_CLI'), if enabled
+    envPrefix?: string;
+}
+
+export interface GlobalOption {
+    // Flags as registered with CAC, e.g. '--root-dir <path>'
+    name: string;
+    description: string;
+}
+
+/**
+ * Options every command accepts, in the order help lists them.
+ */
+export const GLOBAL_OPTIONS: readonly GlobalOption[] = [
+    { name: '--help, -h', description: 'Display this message' },
+    { name: '--root-dir <path>', description: 'Override project root' },
+    { name: '--project <name>', description: 'Select a project of the workspace' },
+    { name: '--profile <name>', description: 'Apply a profile of the project config' },
+    { name: '--all-projects', description: 'Run the command in every project of the workspace' },
+    { name: '--filter <glob>', description: 'Only run in the projects matching the glob (with --all-projects)' },
+    { name: '--concurrency <n>', description: 'Number of projects to run at once (with --all-projects)' },
+    { name: '--debug', description: 'Enable debug mode' }
+];
+
+// Only accepted without a command; help lists it with the global options
+export const VERSION_OPTION: GlobalOption = { name: '-v, --version', description: 'Display version number' };
+
+/**
+ * Long name of an option without dashes and negation ('--no-color' -> 'color', '--out, -o <dir>' -> 'out').
+ */
+function getFlagName(name: string): string {
+    return name.split(',')[0].trim().split(' ')[0].replace(/^-+/, '').replace(/^no-/, '');
+}
+
+/**
+ * Converts a CLI name into the prefix of its environment variables ('my-cli' -> 'MY_CLI').
+ */
+export function toEnvPrefix(name: string): string {
+    return name.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toUpperCase();
+}
+
+/**
+ * Environment variable an option is bound to: its declared `env`, or `<PREFIX>_<OPTION>` when
+ * automatic bindings are enabled ('--dry-run' -> 'MY_CLI_DRY_RUN').
+ */
+export function getOptionEnvName(option: CommandOption, envPrefix?: string): string | undefined {
+    if (option.env) return option.env;
+    if (!envPrefix) return undefined;
+
+    return `${envPrefix}_${getFlagName(option.name).replace(/[^a-zA-Z0-9]+/g, '_').toUpperCase()}`;
+}
+
+/**
+ * Whether an option was given on the command line, in any of its forms ('--dry-run', '--dry-run=x',
+ * '--no-dry-run', '-d', or '-d' grouped with other short flags).
+ */
+export function wasOptionPassed(tokens: readonly string[], name: string): boolean {
+    const flags = name.split(',').map(part => part.trim().split(' ')[0]);
+    const longNames = flags.filter(flag => flag.startsWith('--')).map(flag => getOptionKey(flag));
+    const shortNames = flags.filter(flag => /^-[^-]/.test(flag)).map(flag => flag.slice(1));
+
+    for (const token of tokens) {
+        if (token === '--') break;
+        if (token.startsWith('--')) {
+            if (longNames.includes(getOptionKey(token.split('=')[0]))) return true;
+        } else if (token.startsWith('-') && token.length > 1) {
+            const letters = token.slice(1).split('=')[0];
+            if ([...letters].some(letter => shortNames.includes(letter))) return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Parses an environment value for an option. Flags without a value ('--force') accept
+ * true/false, 1/0, yes/no and on/off; other values are kept as strings for the schema to coerce.
+ */
+export function parseEnvValue(option: CommandOption, value: string): any {
+    const takesValue = /[<[]/.test(option.name);
+    if (takesValue) return value;
+
+    const normalized = value.trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+    if (['false', '0', 'no', 'off', ''].includes(normalized)) return false;
+    return value;
+}
+
+/**
+ * Fills in the options that were not given on the command line, from their environment variable
+ * and then from their declared default (precedence: flag > env > default). Mutates `values` and
+ * returns where each declared option's value came from. Values from the project config are
+ * applied later, once it is loaded (see applyConfigValues).
+ */
+export function resolveOptionValues(
+    options: readonly CommandOption[],
+    values: Record<string, any>,
+    context: ResolveOptionValuesContext
+): Record<string, OptionSource> {
+    const sources: Record<string, OptionSource> = {};
+
+    for (const option of options) {
+        const key = getOptionKey(option.name);
+
+        if (wasOptionPassed(context.argv, option.name)) {
+            sources[key] = 'flag';
+            continue;
+        }
+
+        const envName = getOptionEnvName(option, context.envPrefix);
+        const envValue = envName ? context.env[envName] : undefined;
+        if (envValue !== undefined) {
+            values[key] = parseEnvValue(option, envValue);
+            sources[key] = 'env';
+        } else if (option.default !== undefined) {
+            values[key] = values[key] ?? option.default;
+            sources[key] = 'default';
+        }
+    }
+
+    return sources;
+}
+
+/**
+ * Section of the project config holding the option values of a command, e.g.
+ * `commands: { "module add": { repo: ... } }`.
+ */
+export function getCommandConfig(config: any, command: string): Record<string, any> | undefined {
+    const section = config?.commands?.[command];
+    return section && typeof section === 'object' ? section : undefined;
+}
+
+/**
+ * Applies the values of a command's config section (keyed by option name, camelCase or dashed)
+ * to the options that were not given as a flag or environment variable (precedence:
+ * flag > env > config > default). Mutates `values` and `sources`; returns the keys that were applied.
+ */
+export function applyConfigValues(
+    options: readonly CommandOption[],
+    values: Record<string, any>,
+    sources: Record<string, OptionSource>,
+    commandConfig: Record<string, any> | undefined
+): string[] {
+    if (!commandConfig) return [];
+
+    const applied: string[] = [];
+    for (const option of options) {
+        const key = getOptionKey(option.name);
+        if (sources[key] === 'flag' || sources[key] === 'env') continue;
+
+        const value = commandConfig[key] ?? commandConfig[getFlagName(option.name)];
+        if (value !== undefined) {
+            values[key] = value;
+            sources[key] = 'config';
+            applied.push(key);
+        }
+    }
+
+    return applied;
+}
+
+/**
+ * Describes where the final value of each declared option came from, one line per option
+ * (e.g. `--repo = "https://..." (config)`).
+ */
+export function describeOptionSources(
+    options: readonly CommandOption[],
+    values: Record<string, any>,
+    sources: Record<string, OptionSource>
+): string[] {
+    return options.map(option => {
+        const key = getOptionKey(option.name);
+        const flag = option.name.split(',')[0].trim().split(' ')[0];
+        const value = values[key];
+        // Values not given anywhere may still have been set by the schema's default
+        const source = sources[key] ?? (value !== undefined ? 'default' : 'unset');
+        return `${flag} = ${JSON.stringify(value)} (${source})`;
+    });
+}
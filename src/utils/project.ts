@@ -0,0 +1,130 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+    ConfigFormat,
+    ConfigMigrations,
+    findProjectRoot,
+    formatMigrationWarning,
+    getConfigSearchPlaces,
+    LayeredConfig,
+    loadLayeredConfig,
+    readProjectConfigFile,
+    ResolvedConfigFile
+} from './config.js';
+import { findWorkspaceRoot, listWorkspaceProjects, selectWorkspaceProject } from './workspace.js';
+import { UsageError } from '../errors.js';
+
+/**
+ * Project a CLI run works in: its root, the workspace it belongs to and its merged config
+ * (not validated against the CLI's schema, which commands may skip). Resolved once per run
+ * and shared by every command, hook and the help.
+ */
+export interface ProjectContext extends LayeredConfig {
+    root: string | null;
+    // Root of the workspace (monorepo) the project belongs to, if any
+    workspaceRoot: string | null;
+    // Project config file the config was read from, if any
+    configPath: string | null;
+    // Problems that did not prevent resolving the project (e.g. several config files in the root)
+    warnings: string[];
+}
+
+export interface ResolveProjectContextOptions {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    // --root-dir: use this directory instead of searching the project config upwards
+    rootDir?: string;
+    // --project: select this member of the workspace
+    project?: string;
+    // --profile: apply this entry of `profiles`
+    profile?: string;
+    formats?: readonly ConfigFormat[];
+    // Environment variables that are not config (e.g. those bound to command options)
+    excludeEnv?: readonly string[];
+    migrations?: ConfigMigrations;
+    // Roots and config files already looked up during the run
+    lookup?: ProjectLookup;
+}
+
+/**
+ * Project roots and config files, each looked up once. A CLI run shares one between everything
+ * that resolves the project (the plugins it lists, then its context).
+ */
+export interface ProjectLookup {
+    findRoot(cwd: string): Promise<string | null>;
+    readConfigFile(root: string): Promise<ResolvedConfigFile | null>;
+}
+
+export function createProjectLookup(
+    commandName: string,
+    formats: readonly ConfigFormat[] | undefined,
+    env: NodeJS.ProcessEnv
+): ProjectLookup {
+    const roots = new Map<string, Promise<string | null>>();
+    const files = new Map<string, Promise<ResolvedConfigFile | null>>();
+
+    return {
+        findRoot(cwd) {
+            if (!roots.has(cwd)) roots.set(cwd, findProjectRoot(commandName, cwd, formats));
+            return roots.get(cwd)!;
+        },
+        readConfigFile(root) {
+            if (!files.has(root)) files.set(root, readProjectConfigFile(commandName, root, formats, env));
+            return files.get(root)!;
+        }
+    };
+}
+
+/**
+ * Finds the project root (searching its config file upwards from `cwd`, unless `rootDir` is given),
+ * the workspace it belongs to, and loads the config layers of the project.
+ */
+export async function resolveProjectContext(commandName: string, options: ResolveProjectContextOptions): Promise<ProjectContext> {
+    const { cwd, env, formats, migrations } = options;
+    const warnings: string[] = [];
+
+    const lookup = options.lookup ?? createProjectLookup(commandName, formats, env);
+
+    let root = options.rootDir ? path.resolve(cwd, options.rootDir) : await lookup.findRoot(cwd);
+
+    const workspaceRoot = await findWorkspaceRoot(commandName, root ?? cwd, { env, formats, readProjectFile: lookup.readConfigFile });
+    if (options.project) {
+        if (!workspaceRoot) {
+            throw new UsageError(`--project requires a workspace (a ${commandName}.yml declaring workspaces).`, { showHelp: false });
+        }
+        const projects = await listWorkspaceProjects(commandName, workspaceRoot, {
+            env,
+            formats,
+            migrations,
+            readProjectFile: lookup.readConfigFile
+        });
+        root = selectWorkspaceProject(projects, workspaceRoot, options.project).root;
+    }
+
+    const layered = await loadLayeredConfig(commandName, root, {
+        env,
+        formats,
+        excludeEnv: options.excludeEnv,
+        profile: options.profile,
+        migrations,
+        readProjectFile: lookup.readConfigFile
+    });
+    const projectLayer = layered.layers.find(layer => layer.name === 'project');
+    const configPath = projectLayer?.filepath ?? null;
+
+    if (projectLayer?.migratedFrom !== undefined) {
+        warnings.push(formatMigrationWarning(commandName, projectLayer.filepath!, projectLayer.migratedFrom, projectLayer.config.version));
+    }
+
+    if (root && configPath) {
+        const candidates = getConfigSearchPlaces(commandName, formats)
+            .filter(place => place !== 'package.json' && fs.existsSync(path.join(root!, place)));
+        if (candidates.length > 1) {
+            warnings.push(`Found several config files in ${root} (${candidates.join(', ')}); using ${path.basename(configPath)}.`);
+        }
+    } else if (root) {
+        warnings.push(`No ${commandName} config file found in ${root}.`);
+    }
+
+    return { ...layered, root, workspaceRoot, configPath, warnings };
+}
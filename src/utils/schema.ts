@@ -0,0 +1,201 @@
+import type { ZodTypeAny } from 'zod';
+import { CommandDefinition } from '../CommandInterface.js';
+
+export interface SchemaDescription {
+    type: string;
+    choices?: string[];
+    default?: any;
+}
+
+export type OptionsValidationResult =
+    | { success: true; data: Record<string, any> }
+    | { success: false; issues: string[] };
+
+/**
+ * Converts a declared option name (e.g. '--dry-run', '--repo <url>', '--no-color') into the
+ * camelCase key CAC uses in the parsed options object.
+ */
+export function getOptionKey(name: string): string {
+    const flag = name.split(',')[0].trim().split(' ')[0].replace(/^-+/, '').replace(/^no-/, '');
+    return flag.replace(/-([a-z])/g, (g: string) => g[1].toUpperCase());
+}
+
+/**
+ * Converts a declared argument name (e.g. 'files...') into its key in the options object.
+ */
+export function getArgKey(name: string): string {
+    return name.endsWith('...') ? name.slice(0, -3) : name;
+}
+
+/**
+ * Whether a schema is one of the given zod types. Compares the type name rather than the class, so
+ * that schemas built with another copy of zod (e.g. the CLI's own dependency) are recognized.
+ */
+export function isZodType(schema: any, ...typeNames: string[]): boolean {
+    return typeNames.includes(schema?._def?.typeName);
+}
+
+/**
+ * Strips wrappers (optional, default, effects, ...) to reach the schema describing the raw value.
+ */
+export function unwrapSchema(schema: ZodTypeAny): ZodTypeAny {
+    let current: any = schema;
+    while (current) {
+        if (isZodType(current, 'ZodOptional', 'ZodNullable')) {
+            current = current.unwrap();
+        } else if (isZodType(current, 'ZodDefault')) {
+            current = current.removeDefault();
+        } else if (isZodType(current, 'ZodEffects')) {
+            current = current.innerType();
+        } else if (isZodType(current, 'ZodCatch', 'ZodReadonly')) {
+            current = current._def.innerType;
+        } else if (isZodType(current, 'ZodBranded')) {
+            current = current.unwrap();
+        } else if (isZodType(current, 'ZodPipeline')) {
+            current = current._def.in;
+        } else {
+            return current;
+        }
+    }
+    return schema;
+}
+
+/**
+ * Coerces a raw command line value (always a string, or a number/boolean guessed by the parser)
+ * into the primitive the schema expects. Values that cannot be coerced are returned untouched
+ * so that the schema reports them.
+ */
+export function coerceValue(schema: ZodTypeAny, value: any): any {
+    if (value === undefined || value === null) return value;
+
+    const base: any = unwrapSchema(schema);
+
+    if (isZodType(base, 'ZodNumber', 'ZodBigInt')) {
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+            return isZodType(base, 'ZodBigInt') ? BigInt(value) : Number(value);
+        }
+        return value;
+    }
+
+    if (isZodType(base, 'ZodBoolean')) {
+        if (typeof value === 'string') {
+            const normalized = value.toLowerCase();
+            if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+            if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+        }
+        if (value === 1 || value === 0) return value === 1;
+        return value;
+    }
+
+    if (isZodType(base, 'ZodString', 'ZodEnum')) {
+        return typeof value === 'number' ? String(value) : value;
+    }
+
+    if (isZodType(base, 'ZodNativeEnum')) {
+        const values = Object.values(base.enum);
+        if (!values.includes(value) && values.includes(Number(value))) {
+            return Number(value);
+        }
+        return value;
+    }
+
+    if (isZodType(base, 'ZodArray')) {
+        const items = Array.isArray(value) ? value : [value];
+        return items.map((item) => coerceValue(base.element, item));
+    }
+
+    return value;
+}
+
+/**
+ * Describes a schema for help output: its value type, allowed values and default.
+ */
+export function describeSchema(schema: ZodTypeAny): SchemaDescription {
+    const description: SchemaDescription = { type: 'value' };
+
+    let current: any = schema;
+    while (isZodType(current, 'ZodOptional', 'ZodNullable', 'ZodDefault')) {
+        if (isZodType(current, 'ZodDefault') && description.default === undefined) {
+            description.default = current._def.defaultValue();
+        }
+        current = isZodType(current, 'ZodDefault') ? current.removeDefault() : current.unwrap();
+    }
+
+    const base: any = unwrapSchema(current);
+
+    if (isZodType(base, 'ZodArray')) {
+        const element = describeSchema(base.element);
+        description.type = `${element.type}[]`;
+        description.choices = element.choices;
+    } else if (isZodType(base, 'ZodEnum')) {
+        description.type = 'enum';
+        description.choices = [...base.options];
+    } else if (isZodType(base, 'ZodNativeEnum')) {
+        description.type = 'enum';
+        description.choices = Object.entries(base.enum)
+            .filter(([key]) => isNaN(Number(key)))
+            .map(([, value]) => String(value));
+    } else if (isZodType(base, 'ZodLiteral')) {
+        description.type = typeof base.value;
+        description.choices = [String(base.value)];
+    } else if (isZodType(base, 'ZodUnion')) {
+        const literals = base.options.filter((option: any) => isZodType(option, 'ZodLiteral'));
+        if (literals.length === base.options.length) {
+            description.type = 'enum';
+            description.choices = literals.map((option: any) => String(option.value));
+        }
+    } else if (isZodType(base, 'ZodNumber')) {
+        description.type = base.isInt ? 'integer' : 'number';
+    } else if (isZodType(base, 'ZodBigInt')) {
+        description.type = 'integer';
+    } else if (isZodType(base, 'ZodBoolean')) {
+        description.type = 'boolean';
+    } else if (isZodType(base, 'ZodString')) {
+        description.type = 'string';
+    }
+
+    return description;
+}
+
+/**
+ * Formats a schema description as a short hint for help output, e.g. "number" or "one of: dev, prod".
+ */
+export function formatSchemaHint(schema: ZodTypeAny): string {
+    const { type, choices } = describeSchema(schema);
+    if (choices && choices.length > 0) {
+        const list = `one of: ${choices.join(', ')}`;
+        return type.endsWith('[]') ? `list, ${list}` : list;
+    }
+    return type;
+}
+
+/**
+ * Coerces and validates the parsed options of a command against the schemas declared in its
+ * definition. Arguments and options without a schema are passed through untouched.
+ */
+export function validateCommandOptions(definition: CommandDefinition | undefined, options: Record<string, any>): OptionsValidationResult {
+    const data: Record<string, any> = { ...options };
+    const issues: string[] = [];
+
+    const entries: { key: string; label: string; schema: ZodTypeAny }[] = [];
+    for (const arg of definition?.args || []) {
+        if (arg.schema) entries.push({ key: getArgKey(arg.name), label: `<${getArgKey(arg.name)}>`, schema: arg.schema });
+    }
+    for (const opt of definition?.options || []) {
+        if (opt.schema) entries.push({ key: getOptionKey(opt.name), label: opt.name.split(' ')[0].replace(/,$/, ''), schema: opt.schema });
+    }
+
+    for (const { key, label, schema } of entries) {
+        const result = schema.safeParse(coerceValue(schema, data[key]));
+        if (result.success) {
+            data[key] = result.data;
+        } else {
+            for (const issue of result.error.issues) {
+                const path = issue.path.length > 0 ? ` (at ${issue.path.join('.')})` : '';
+                issues.push(`Invalid value for ${label}${path}: ${issue.message}`);
+            }
+        }
+    }
+
+    return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
@@ -1,21 +1,34 @@
 import { exec } from 'node:child_process';
+import path from 'node:path';
 import { promisify } from 'node:util';
 import { logger } from './logger.js';
+import { createProcessContext, type ExecutionContext } from './io.js';
+import { ExternalToolError } from '../errors.js';
 
 const execAsync = promisify(exec);
 
-export async function runCommand(command: string, cwd?: string): Promise<void> {
+/**
+ * Runs a shell command and prints its output. The command runs in `cwd` (relative to the context's
+ * working directory) with the context's environment; commands should use `this.exec()` so that it
+ * runs within their `CLI.run()`.
+ */
+export async function runCommand(command: string, cwd?: string, context: ExecutionContext = createProcessContext()): Promise<void> {
+    const workingDir = path.resolve(context.cwd, cwd ?? '.');
     try {
-        logger.debug(`Executing command: ${command} in ${cwd || process.cwd()}`);
-        const { stdout } = await execAsync(command, { cwd });
+        logger.debug(`Executing command: ${command} in ${workingDir}`);
+        const { stdout } = await execAsync(command, { cwd: workingDir, env: context.env });
         if (stdout) {
-            console.log(stdout);
+            context.output.log(stdout.replace(/\n$/, ''));
         }
     } catch (error: any) {
         logger.error(`Command failed: ${command}`);
         if (error.stderr) {
             logger.error(error.stderr);
         }
-        throw new Error(`Command failed: ${command}`);
+        throw new ExternalToolError(command, {
+            toolExitCode: typeof error.code === 'number' ? error.code : undefined,
+            stderr: error.stderr,
+            cause: error
+        });
     }
 }
@@ -0,0 +1,96 @@
+export interface SuggestableCommand {
+    command: string;
+    class?: any;
+}
+
+/**
+ * Edit distance between two strings, counting an adjacent transposition ("moduel") as one edit.
+ */
+export function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return d[a.length][b.length];
+}
+
+/**
+ * Whether a candidate is close enough to the input to be a plausible typo, or starts with it.
+ */
+function isPlausible(input: string, candidate: string, distance: number): boolean {
+    return distance <= Math.max(1, Math.floor(input.length * 0.4)) || (input.length >= 2 && candidate.startsWith(input));
+}
+
+/**
+ * Closest plausible candidate to the input, if any.
+ */
+export function findClosest(input: string, candidates: string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Infinity;
+
+    for (const candidate of candidates) {
+        const distance = editDistance(input, candidate);
+        if (isPlausible(input, candidate, distance) && distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Suggests the command path closest to the words typed by the user. Only commands below
+ * `basePath` (the part of the path that did match) are considered; aliases count as matches
+ * for their command.
+ */
+export function suggestCommand(commands: SuggestableCommand[], typed: readonly string[], basePath: readonly string[] = []): string | undefined {
+    const depth = basePath.length;
+    let best: string | undefined;
+    let bestDistance = Infinity;
+
+    for (const cmd of commands) {
+        const words = cmd.command.split(' ');
+        if (words.length <= depth || basePath.some((word, i) => words[i] !== word)) continue;
+
+        const variants = [words, ...(cmd.class?.aliases || []).map((alias: string) => [...words.slice(0, -1), alias])];
+        for (const variant of variants) {
+            // Compare the typed words below the base path with as many words of the candidate,
+            // so that 'moduel' suggests the 'module' namespace of 'module add'
+            const length = Math.min(variant.length, typed.length);
+            if (length <= depth) continue;
+
+            const input = typed.slice(depth, length).join(' ');
+            const target = variant.slice(depth, length).join(' ');
+            const distance = editDistance(input, target);
+            if (isPlausible(input, target, distance) && distance < bestDistance) {
+                best = words.slice(0, length).join(' ');
+                bestDistance = distance;
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Closest declared option (e.g. '--force') to an unknown flag typed by the user.
+ * Accepts raw option names as declared ('--repo <url>', '--help, -h').
+ */
+export function suggestOption(input: string, optionNames: string[]): string | undefined {
+    const flags = optionNames.flatMap(name => name.split(',').map(part => part.trim().split(' ')[0]));
+    return findClosest(input, flags.filter(flag => flag.startsWith('--')));
+}
+
+export function formatSuggestion(suggestion: string): string {
+    return `Did you mean \`${suggestion}\`?`;
+}
@@ -0,0 +1,192 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ZodTypeAny } from 'zod';
+import { ConfigFormat, ConfigMigrations, loadLayeredConfig, readProjectConfigFile, ResolvedConfigFile } from './config.js';
+import { logger } from './logger.js';
+import { ConfigError, UsageError } from '../errors.js';
+import { findClosest, formatSuggestion } from './suggest.js';
+
+export interface WorkspaceProject {
+    // `name` from the project config, or the name of its directory
+    name: string;
+    root: string;
+    // Merged config of the project (see loadLayeredConfig)
+    config: any;
+}
+
+export interface WorkspaceOptions {
+    env: NodeJS.ProcessEnv;
+    formats?: readonly ConfigFormat[];
+    schema?: ZodTypeAny;
+    migrations?: ConfigMigrations;
+    // Reads the config file of a directory (default: readProjectConfigFile), e.g. from a cache
+    readProjectFile?: (dir: string) => Promise<ResolvedConfigFile | null>;
+}
+
+// Directories never searched for workspace members
+const IGNORED_DIRS = ['node_modules'];
+
+function readConfigFile(commandName: string, dir: string, options: WorkspaceOptions): Promise<ResolvedConfigFile | null> {
+    return options.readProjectFile ? options.readProjectFile(dir) : readProjectConfigFile(commandName, dir, options.formats, options.env);
+}
+
+/**
+ * Workspace patterns declared by the config at `dir` (`workspaces: ['packages/*']`), if any.
+ */
+async function readWorkspacePatterns(commandName: string, dir: string, options: WorkspaceOptions): Promise<string[] | null> {
+    const file = await readConfigFile(commandName, dir, options);
+    const workspaces = file?.config?.workspaces;
+    if (workspaces === undefined) return null;
+
+    if (!Array.isArray(workspaces) || workspaces.some(pattern => typeof pattern !== 'string')) {
+        throw new ConfigError(`Invalid workspaces in ${file!.filepath}: expected a list of directory patterns.`);
+    }
+    return workspaces;
+}
+
+/**
+ * Directories below `root` matching a pattern. Segments may use `*` (any name) and `**` (any depth).
+ */
+async function expandPattern(root: string, pattern: string): Promise<string[]> {
+    let dirs = [root];
+
+    for (const segment of pattern.split('/').filter(part => part && part !== '.')) {
+        const next: string[] = [];
+        for (const dir of dirs) {
+            if (segment === '**') {
+                next.push(dir, ...await listSubdirectories(dir, true));
+            } else if (segment.includes('*')) {
+                const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+                next.push(...(await listSubdirectories(dir, false)).filter(sub => matcher.test(path.basename(sub))));
+            } else {
+                const candidate = path.join(dir, segment);
+                if ((await fs.stat(candidate).catch(() => null))?.isDirectory()) next.push(candidate);
+            }
+        }
+        dirs = next;
+    }
+
+    return dirs;
+}
+
+async function listSubdirectories(dir: string, recursive: boolean): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const subdirectories: string[] = [];
+
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || IGNORED_DIRS.includes(entry.name)) continue;
+        const subdirectory = path.join(dir, entry.name);
+        subdirectories.push(subdirectory);
+        if (recursive) subdirectories.push(...await listSubdirectories(subdirectory, true));
+    }
+
+    return subdirectories;
+}
+
+/**
+ * Roots of the member projects of a workspace: the directories matching its patterns that hold a
+ * project config. Patterns starting with `!` exclude directories.
+ */
+async function findMemberRoots(commandName: string, workspaceRoot: string, patterns: string[], options: WorkspaceOptions): Promise<string[]> {
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith('!');
+        for (const dir of await expandPattern(workspaceRoot, negated ? pattern.slice(1) : pattern)) {
+            (negated ? excluded : included).add(dir);
+        }
+    }
+
+    const roots: string[] = [];
+    for (const dir of [...included].sort()) {
+        if (dir === workspaceRoot || excluded.has(dir)) continue;
+        if (await readConfigFile(commandName, dir, options)) roots.push(dir);
+    }
+    return roots;
+}
+
+/**
+ * Nearest workspace containing `startDir`: the closest ancestor (or `startDir` itself) whose config
+ * declares `workspaces` and either is the project at `startDir` or lists it as a member.
+ */
+export async function findWorkspaceRoot(commandName: string, startDir: string, options: WorkspaceOptions): Promise<string | null> {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+        const patterns = await readWorkspacePatterns(commandName, dir, options);
+        if (patterns) {
+            const members = await findMemberRoots(commandName, dir, patterns, options);
+            const start = path.resolve(startDir);
+            if (start === dir || members.some(member => start === member || start.startsWith(member + path.sep))) {
+                logger.debug(`Workspace root found at: ${dir}`);
+                return dir;
+            }
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Member projects of a workspace with their merged config, sorted by path.
+ */
+export async function listWorkspaceProjects(commandName: string, workspaceRoot: string, options: WorkspaceOptions): Promise<WorkspaceProject[]> {
+    const patterns = await readWorkspacePatterns(commandName, workspaceRoot, options) ?? [];
+    const projects: WorkspaceProject[] = [];
+
+    for (const root of await findMemberRoots(commandName, workspaceRoot, patterns, options)) {
+        const { config } = await loadLayeredConfig(commandName, root, options);
+        projects.push({
+            name: typeof config?.name === 'string' ? config.name : path.basename(root),
+            root,
+            config
+        });
+    }
+
+    return projects;
+}
+
+/**
+ * Whether a name or path matches a glob (`*` and `?` within a path segment, `**` across segments).
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+    const source = pattern
+        .split(/(\*\*|\*|\?)/)
+        .map(part => {
+            if (part === '**') return '.*';
+            if (part === '*') return '[^/]*';
+            if (part === '?') return '[^/]';
+            return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Projects whose name or path relative to the workspace root matches the glob of `--filter`.
+ */
+export function filterWorkspaceProjects(projects: WorkspaceProject[], workspaceRoot: string, pattern: string): WorkspaceProject[] {
+    return projects.filter(project =>
+        matchesGlob(project.name, pattern) || matchesGlob(path.relative(workspaceRoot, project.root).split(path.sep).join('/'), pattern)
+    );
+}
+
+/**
+ * Member project selected by `--project`, by name or by path relative to the workspace root.
+ */
+export function selectWorkspaceProject(projects: WorkspaceProject[], workspaceRoot: string, selector: string): WorkspaceProject {
+    const project = projects.find(candidate =>
+        candidate.name === selector || path.relative(workspaceRoot, candidate.root) === path.normalize(selector)
+    );
+    if (project) return project;
+
+    const suggestion = findClosest(selector, projects.map(candidate => candidate.name));
+    const available = projects.map(candidate => candidate.name).join(', ') || 'none';
+    throw new UsageError(`Unknown project '${selector}' in workspace ${workspaceRoot}.`, {
+        hint: suggestion ? formatSuggestion(suggestion) : `Available projects: ${available}.`,
+        showHelp: false
+    });
+}
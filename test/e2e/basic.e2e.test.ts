@@ -1,4 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { runCLI } from '../utils/integration-helpers.js';
 import pkg from '../../package.json';
 
@@ -13,4 +16,24 @@ describe('CLI E2E', () => {
         const { stdout } = await runCLI(['--version'], process.cwd());
         expect(stdout).toContain(pkg.version);
     });
+
+    it('should let the commands of the cwd override core commands', async () => {
+        const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'e2e-override-'));
+        try {
+            fs.mkdirSync(path.join(cwd, 'commands'));
+            fs.writeFileSync(path.join(cwd, 'commands', 'help.js'), [
+                'export default class {',
+                '    constructor(cli) { this.cli = cli; }',
+                '    async init() {}',
+                "    async runInit() { this.cli.getContext().output.log('custom help'); }",
+                '}',
+                ''
+            ].join('\n'));
+
+            const { stdout } = await runCLI(['help'], cwd);
+            expect(stdout).toBe('custom help');
+        } finally {
+            fs.rmSync(cwd, { recursive: true, force: true });
+        }
+    });
 });
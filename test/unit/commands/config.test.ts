@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { CLI } from '../../../src/CLI.js';
+import { ExitCode } from '../../../src/errors.js';
+
+vi.mock('picocolors', () => {
+    const identity = (s: string) => s;
+    return { default: { bold: identity, cyan: identity, yellow: identity, dim: identity, red: identity, green: identity, blue: identity } };
+});
+
+describe('config commands', () => {
+    let home: string;
+    let project: string;
+    let projectFile: string;
+    let globalFile: string;
+
+    beforeEach(() => {
+        home = fs.mkdtempSync(path.join(os.tmpdir(), 'config-cmd-home-'));
+        project = fs.mkdtempSync(path.join(os.tmpdir(), 'config-cmd-project-'));
+        projectFile = path.join(project, 'app.yml');
+        globalFile = path.join(home, '.config', 'app', 'config.yml');
+
+        fs.writeFileSync(projectFile, [
+            '# Site settings',
+            'name: site',
+            'deploy:',
+            '  region: us # closest to our users',
+            '  retries: 2',
+            ''
+        ].join('\n'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(home, { recursive: true, force: true });
+        fs.rmSync(project, { recursive: true, force: true });
+    });
+
+    function run(args: string[], env: NodeJS.ProcessEnv = {}, cli = new CLI({ commandName: 'app', searchDirectories: [] })) {
+        return cli.run(['config', ...args], { cwd: project, env: { HOME: home, ...env } });
+    }
+
+    it('should print values of the merged config', async () => {
+        expect((await run(['get', 'deploy.region'])).stdout).toBe('us\n');
+        expect((await run(['get', 'deploy.retries'], { APP_DEPLOY__RETRIES: '5' })).stdout).toBe('5\n');
+        expect((await run(['get', 'deploy'])).stdout).toBe('region: us\nretries: 2\n');
+
+        const missing = await run(['get', 'deploy.zone']);
+        expect(missing.exitCode).toBe(ExitCode.Error);
+        expect(missing.stderr).toContain("Config key 'deploy.zone' is not set.");
+    });
+
+    it('should set values in the project file, keeping comments and key order', async () => {
+        const result = await run(['set', 'deploy.region', 'eu']);
+        await run(['set', 'deploy.targets', '[a, b]']);
+        await run(['set', 'deploy.retries', '3']);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain(`Set deploy.region in ${projectFile}`);
+        expect(fs.readFileSync(projectFile, 'utf8')).toBe([
+            '# Site settings',
+            'name: site',
+            'deploy:',
+            '  region: eu # closest to our users',
+            '  retries: 3',
+            '  targets:',
+            '    - a',
+            '    - b',
+            ''
+        ].join('\n'));
+    });
+
+    it('should remove values from the project file', async () => {
+        expect((await run(['unset', 'deploy.retries'])).exitCode).toBe(0);
+        expect(fs.readFileSync(projectFile, 'utf8')).not.toContain('retries');
+
+        const missing = await run(['unset', 'deploy.retries']);
+        expect(missing.exitCode).toBe(ExitCode.Error);
+        expect(missing.stderr).toContain(`Config key 'deploy.retries' is not set in ${projectFile}.`);
+    });
+
+    it('should edit the user config file with --global', async () => {
+        await run(['set', 'editor', 'vim', '--global']);
+
+        expect(fs.readFileSync(globalFile, 'utf8')).toBe('editor: vim\n');
+        expect((await run(['get', 'editor'])).stdout).toBe('vim\n');
+        expect((await run(['get', 'name', '--global'])).exitCode).toBe(ExitCode.Error);
+
+        await run(['unset', 'editor', '--global']);
+        expect(fs.readFileSync(globalFile, 'utf8')).not.toContain('editor');
+    });
+
+    it('should edit the config file the project uses', async () => {
+        const jsonFile = path.join(project, 'app.json');
+        fs.rmSync(projectFile);
+        fs.writeFileSync(jsonFile, JSON.stringify({ region: 'us', deploy: { target: 'prod' } }));
+        const cli = () => new CLI({ commandName: 'app', searchDirectories: [], configFormats: ['yaml', 'json'] });
+
+        const result = await run(['set', 'mode', 'fast'], {}, cli());
+        expect(result.stdout).toContain(`Set mode in ${jsonFile}`);
+        expect(await run(['unset', 'deploy.target'], {}, cli())).toMatchObject({ exitCode: 0 });
+
+        expect(fs.existsSync(projectFile)).toBe(false);
+        expect(JSON.parse(fs.readFileSync(jsonFile, 'utf8'))).toEqual({ region: 'us', deploy: {}, mode: 'fast' });
+        const list = await run(['list'], {}, cli());
+        expect(list.stdout).toBe('region=us\nmode=fast\n');
+        expect(list.stderr).toBe('');
+    });
+
+    it('should refuse to edit config files it cannot rewrite', async () => {
+        fs.rmSync(projectFile);
+        fs.writeFileSync(path.join(project, 'package.json'), JSON.stringify({ name: 'site', app: { region: 'us' } }));
+        const cli = new CLI({ commandName: 'app', searchDirectories: [], configFormats: ['yaml', 'package.json'] });
+
+        const result = await run(['set', 'mode', 'fast'], {}, cli);
+
+        expect(result.exitCode).toBe(ExitCode.Config);
+        expect(result.stderr).toContain(`Cannot edit ${path.join(project, 'package.json')}: only YAML and JSON config files can be rewritten.`);
+        expect(fs.existsSync(projectFile)).toBe(false);
+    });
+
+    it('should repair configs with unresolvable placeholders', async () => {
+        fs.appendFileSync(projectFile, 'zone: ${env:ZONE}\n');
+
+        expect((await run(['get', 'name'])).stdout).toBe('site\n');
+        const unresolved = await run(['get', 'zone']);
+        expect(unresolved.exitCode).toBe(ExitCode.Config);
+        expect(unresolved.stderr).toContain('Environment variable ZONE is not set');
+
+        expect((await run(['unset', 'zone'])).exitCode).toBe(0);
+        expect(fs.readFileSync(projectFile, 'utf8')).not.toContain('zone');
+    });
+
+    it('should print help when the project config is broken', async () => {
+        fs.writeFileSync(projectFile, 'name: [unclosed\n');
+        const cli = new CLI({ commandName: 'app', searchDirectories: [] });
+
+        const result = await cli.run(['help'], { cwd: project, env: { HOME: home } });
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('config set');
+    });
+
+    it('should require a project unless --global is given', async () => {
+        fs.rmSync(projectFile);
+
+        const result = await run(['set', 'name', 'site']);
+
+        expect(result.exitCode).toBe(ExitCode.NotInProject);
+        expect(result.stderr).toContain('Use --global to edit your user config instead.');
+    });
+
+    it('should list values with their origin', async () => {
+        fs.mkdirSync(path.dirname(globalFile), { recursive: true });
+        fs.writeFileSync(globalFile, 'editor: vim\n');
+
+        const plain = await run(['list']);
+        expect(plain.stdout).toBe('editor=vim\nname=site\ndeploy.region=us\ndeploy.retries=2\n');
+
+        const withOrigin = await run(['list', '--show-origin'], { APP_DEPLOY__RETRIES: '5' });
+        expect(withOrigin.stdout).toBe([
+            `global (${globalFile})\teditor=vim`,
+            `project (${projectFile})\tname=site`,
+            `project (${projectFile})\tdeploy.region=us`,
+            'env (APP_DEPLOY__RETRIES)\tdeploy.retries=5',
+            ''
+        ].join('\n'));
+
+        expect((await run(['list', '--global'])).stdout).toBe('editor=vim\n');
+    });
+
+    it('should apply the profile selected with --profile', async () => {
+        fs.appendFileSync(projectFile, 'profiles:\n  prod:\n    deploy:\n      region: ap\n');
+
+        expect((await run(['get', 'deploy.region'])).stdout).toBe('us\n');
+        expect((await run(['get', 'deploy.region', '--profile', 'prod'])).stdout).toBe('ap\n');
+        expect((await run(['list', '--show-origin'], { APP_PROFILE: 'prod' })).stdout).toContain(`profile prod (${projectFile})\tdeploy.region=ap`);
+
+        const unknown = await run(['get', 'deploy.region', '--profile', 'staging']);
+        expect(unknown.exitCode).toBe(ExitCode.Usage);
+        expect(unknown.stderr).toContain("Unknown profile 'staging'.");
+        expect(unknown.stderr).toContain('Available profiles: prod.');
+    });
+
+    it('should migrate the project file, keeping a backup and its comments', async () => {
+        const migrations = { 2: (config: any) => ({ ...config, deploy: { regions: [config.deploy.region], retries: config.deploy.retries } }) };
+        const cli = () => new CLI({ commandName: 'app', searchDirectories: [], migrations });
+        const original = fs.readFileSync(projectFile, 'utf8');
+
+        // Commands see the migrated config before the file is updated
+        const get = await run(['get', 'deploy.regions'], {}, cli());
+        expect(get.stdout).toBe('- us\n');
+        expect(get.stderr).toContain('Run `app config migrate` to update the file.');
+
+        const dryRun = await run(['migrate', '--dry-run'], {}, cli());
+        expect(dryRun.stdout).toContain('version: 2');
+        expect(fs.readFileSync(projectFile, 'utf8')).toBe(original);
+
+        const result = await run(['migrate'], {}, cli());
+        expect(result.exitCode).toBe(0);
+        expect(result.stderr).toBe('');
+        expect(result.stdout).toContain(`Migrated ${projectFile} from config version 1 to 2 (backup: ${projectFile}.v1.bak)`);
+        expect(fs.readFileSync(`${projectFile}.v1.bak`, 'utf8')).toBe(original);
+        expect(fs.readFileSync(projectFile, 'utf8')).toBe([
+            '# Site settings',
+            'name: site',
+            'deploy:',
+            '  retries: 2',
+            '  regions:',
+            '    - us',
+            'version: 2',
+            ''
+        ].join('\n'));
+
+        expect((await run(['migrate'], {}, cli())).stdout).toBe(`${projectFile} is already at config version 2.\n`);
+    });
+
+    it('should work on configs that do not match the schema', async () => {
+        const cli = new CLI({ commandName: 'app', searchDirectories: [], configSchema: z.object({ deploy: z.object({ region: z.enum(['eu']) }) }) });
+
+        const result = await run(['set', 'deploy.region', 'eu'], {}, cli);
+
+        expect(result.exitCode).toBe(0);
+        expect(fs.readFileSync(projectFile, 'utf8')).toContain('region: eu');
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import HelpCommand from '../../../src/commands/help.js';
+import { z } from 'zod';
+import { GLOBAL_OPTIONS } from '../../../src/utils/options.js';
 
 // Mock logger
 vi.mock('../../../src/utils/logger.js', () => ({
@@ -68,6 +70,38 @@ describe('HelpCommand', () => {
         expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('--help'));
     });
 
+    it('should list every global option in the global and the command help', async () => {
+        mockCli.getCommands.mockReturnValue([{ command: 'deploy', class: { description: 'Deploy the app' } }]);
+
+        await new HelpCommand(mockCli).run({ command: [] });
+        await new HelpCommand(mockCli).run({ command: ['deploy'] });
+
+        const lines: string[] = consoleLogSpy.mock.calls.map(([line]: string[]) => line);
+        for (const option of GLOBAL_OPTIONS) {
+            expect(lines.filter(line => line.includes(option.name) && line.includes(option.description))).toHaveLength(2);
+        }
+    });
+
+    it('should list the profiles of the project config', async () => {
+        const cmd = new HelpCommand(mockCli);
+        mockCli.getCommands.mockReturnValue([]);
+        mockCli.getProjectContext = vi.fn().mockResolvedValue({ profiles: ['staging', 'prod'], profile: 'prod' });
+
+        await cmd.run({ command: [] });
+
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('--profile <name>'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Profiles:'));
+        expect(consoleLogSpy).toHaveBeenCalledWith('    staging');
+        expect(consoleLogSpy).toHaveBeenCalledWith('    prod (active)');
+
+        // Help is still shown when the project cannot be resolved
+        consoleLogSpy.mockClear();
+        mockCli.getProjectContext = vi.fn().mockRejectedValue(new Error('Invalid config'));
+        await cmd.run({ command: [] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: app'));
+        expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('Profiles:'));
+    });
+
     it('should handle undefined command option safely', async () => {
         const cmd = new HelpCommand(mockCli);
 
@@ -175,6 +209,54 @@ describe('HelpCommand', () => {
         expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('A flag'));
     });
 
+    it('should display derived types and allowed values for schema definitions', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([{
+            command: 'deploy',
+            class: {
+                description: 'Deploy the app',
+                args: {
+                    args: [{ name: 'target', required: true, description: 'Target', schema: z.enum(['dev', 'prod']) }],
+                    options: [
+                        { name: '--count <n>', description: 'Count', schema: z.number().int().default(2) },
+                        { name: '--verbose', description: 'Verbose', schema: z.boolean().optional() }
+                    ]
+                }
+            }
+        }]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: ['deploy'] });
+
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('(one of: dev, prod) (required)'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('(integer) (default: 2)'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Verbose (boolean)'));
+    });
+
+    it('should display the environment variable bound to options', async () => {
+        const cmd = new HelpCommand(mockCli);
+        mockCli.getEnvPrefix = vi.fn().mockReturnValue('APP');
+
+        mockCli.getCommands.mockReturnValue([{
+            command: 'login',
+            class: {
+                args: {
+                    options: [
+                        { name: '--token <token>', description: 'API token', env: 'MYCLI_TOKEN' },
+                        { name: '--dry-run', description: 'Dry run' }
+                    ]
+                }
+            }
+        }]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: ['login'] });
+
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('API token (env: MYCLI_TOKEN)'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Dry run (env: APP_DRY_RUN)'));
+    });
+
     it('should display command help with options having defaults', async () => {
         const cmd = new HelpCommand(mockCli);
 
@@ -233,6 +315,111 @@ describe('HelpCommand', () => {
         expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('init'));
     });
 
+    it('should list only the direct children of a nested namespace', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'cloud db backup', class: { description: 'Backup database' } },
+            { command: 'cloud db snapshot create', class: { description: 'Create snapshot' } },
+            { command: 'cloud deploy', class: { description: 'Deploy' } }
+        ]);
+
+        await cmd.run({ command: ['cloud', 'db'] });
+
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Commands for cloud db:'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Backup database'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('cloud db snapshot ...'));
+        expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('Create snapshot'));
+        expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('Deploy'));
+    });
+
+    it('should display parent command usage together with its subcommands', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'user', class: { description: 'Show the current user', args: { options: [{ name: '--json', description: 'Output JSON' }] } } },
+            { command: 'user create', class: { description: 'Create a user' } },
+            { command: 'user keys add', class: { description: 'Add a key' } }
+        ]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: ['user'] });
+
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: user'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('--json'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Subcommands:'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Create a user'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('user keys ...'));
+    });
+
+    it('should list aliases and resolve them in help queries', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'list', class: { description: 'List things', aliases: ['ls'] } },
+            { command: 'module remove', class: { description: 'Remove module', aliases: ['rm', 'del'] } }
+        ]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: [] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('List things (aliases: ls)'));
+
+        await cmd.run({ command: ['module'] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Remove module (aliases: rm, del)'));
+
+        await cmd.run({ command: ['module', 'rm'] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: module remove'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Aliases: rm, del'));
+    });
+
+    it('should hide hidden commands unless --all is given and mark the others', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'deploy', class: { description: 'Deploy' } },
+            { command: 'push', class: { description: 'Push', deprecated: { since: '2.0.0', replacement: 'deploy' } } },
+            { command: 'preview', class: { description: 'Preview', experimental: true } },
+            { command: 'internal', class: { description: 'Internal', hidden: true } },
+            { command: 'module sync', class: { description: 'Sync', hidden: true } }
+        ]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: [] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Push (deprecated)'));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Preview (experimental)'));
+        expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('Internal'));
+
+        consoleLogSpy.mockClear();
+        await cmd.run({ command: ['module'] });
+        expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining('Sync'));
+
+        consoleLogSpy.mockClear();
+        await cmd.run({ command: [], all: true });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Internal (hidden)'));
+
+        // Hidden commands are still described when asked for by name
+        consoleLogSpy.mockClear();
+        await cmd.run({ command: ['internal'] });
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: internal'));
+        await expect(cmd.run({ command: ['internl'] })).rejects.toThrow(/^Unknown command: internl$/);
+    });
+
+    it('should describe deprecated and experimental commands', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'push', class: { description: 'Push', deprecated: { since: '2.0.0', replacement: 'deploy', message: 'Pushing is now part of deploy.' } } },
+            { command: 'preview', class: { description: 'Preview', experimental: true } }
+        ]);
+        mockRawCli.commands = [];
+
+        await cmd.run({ command: ['push'] });
+        expect(consoleLogSpy).toHaveBeenCalledWith("  Deprecated: 'app push' is deprecated since 2.0.0. Use 'app deploy' instead. Pushing is now part of deploy.");
+
+        await cmd.run({ command: ['preview'] });
+        expect(consoleLogSpy).toHaveBeenCalledWith('  Experimental: enable it under `experimental` in the config.');
+    });
+
     it('should auto-generate usage if static usage is missing and CAC command is missing', async () => {
         const cmd = new HelpCommand(mockCli);
 
@@ -334,12 +521,17 @@ describe('HelpCommand', () => {
 
         mockCli.getCommands.mockReturnValue([]);
 
-        try {
-            await cmd.run({ command: ['unknown'] });
-        } catch (e: any) {
-            expect(e.message).toBe('EXIT');
-        }
+        await expect(cmd.run({ command: ['unknown'] })).rejects.toThrow('Unknown command: unknown');
+    });
+
+    it('should suggest the closest command for unknown queries', async () => {
+        const cmd = new HelpCommand(mockCli);
+
+        mockCli.getCommands.mockReturnValue([
+            { command: 'module add', class: {} },
+            { command: 'module remove', class: {} }
+        ]);
 
-        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('✖ Unknown command: unknown'));
+        await expect(cmd.run({ command: ['module', 'ad'] })).rejects.toThrow('Unknown command: module ad. Did you mean `module add`?');
     });
 });
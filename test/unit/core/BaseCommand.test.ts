@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CLI } from '../../../src/CLI.js';
 import { BaseCommand } from '../../../src/BaseCommand.js';
+import { CLIError, NotInProjectError, UserCancelledError } from '../../../src/errors.js';
 import * as ConfigUtils from '../../../src/utils/config.js';
-import { logger } from '../../../src/utils/logger.js';
 import process from 'node:process';
 import pc from 'picocolors';
 import { consola } from 'consola';
+import { realpathSync } from 'node:fs';
+import os from 'node:os';
+import { CapturingOutput } from '../../../src/utils/io.js';
 
 vi.mock('../../../src/utils/config.js');
 vi.mock('../../../src/utils/logger.js');
@@ -36,6 +39,7 @@ describe('BaseCommand', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
+        (ConfigUtils.loadLayeredConfig as any).mockResolvedValue({ config: {}, origins: {}, layers: [] });
         processExitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
         consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
     });
@@ -69,13 +73,31 @@ describe('BaseCommand', () => {
     });
 
     it('should load config if project root exists', async () => {
+        const origins = { loaded: { layer: 'project', filepath: '/found/root/app.yml' } };
         (ConfigUtils.findProjectRoot as any).mockResolvedValue('/found/root');
-        (ConfigUtils.loadConfig as any).mockResolvedValue({ loaded: true });
+        (ConfigUtils.loadLayeredConfig as any).mockResolvedValue({ config: { loaded: true }, origins, layers: [] });
 
         const cli = new CLI({ commandName: 'app' });
         const cmd = new TestCommand(cli, {});
         await cmd.init();
+        expect(ConfigUtils.loadLayeredConfig).toHaveBeenCalledWith('app', '/found/root', expect.objectContaining({ excludeEnv: [] }));
         expect((cmd as any).config).toEqual({ loaded: true });
+        expect((cmd as any).configOrigins).toEqual(origins);
+    });
+
+    it('should not read the environment variables of command options as config', async () => {
+        class TokenCommand extends BaseCommand {
+            static args = { options: [{ name: '--token <token>', env: 'APP_TOKEN' }, { name: '--dry-run' }] };
+            async run() { }
+        }
+        (ConfigUtils.findProjectRoot as any).mockResolvedValue(null);
+        const cli = new CLI({ commandName: 'app', autoEnv: true });
+        (cli as any).loadedCommands = [{ command: 'deploy', path: '/commands/deploy.ts', class: TokenCommand }];
+        await new TestCommand(cli, {}).init();
+
+        expect(ConfigUtils.loadLayeredConfig).toHaveBeenCalledWith('app', null, expect.objectContaining({
+            excludeEnv: ['APP_TOKEN', 'APP_DRY_RUN']
+        }));
     });
 
     it('should error if project required but not found', async () => {
@@ -84,10 +106,10 @@ describe('BaseCommand', () => {
         const cli = new CLI({ commandName: 'app' });
         const cmd = new ProjectRequiredCommand(cli, {});
         await cmd.init();
-        await cmd.runInit({});
 
-        expect(consoleLogSpy).toHaveBeenCalledWith(pc.red('✖ This command requires to be run within an app project (app.yml not found).'));
-        expect(process.exit).toHaveBeenCalledWith(1);
+        await expect(cmd.runInit({})).rejects.toThrow(NotInProjectError);
+        await expect(cmd.runInit({})).rejects.toThrow('This command requires to be run within an app project (app.yml not found).');
+        expect(process.exit).not.toHaveBeenCalled();
     });
 
     it('should execute run method via runInit', async () => {
@@ -136,39 +158,58 @@ describe('BaseCommand', () => {
         expect(consoleLogSpy).toHaveBeenCalledWith(pc.yellow('⚠ test'));
     });
 
-    it('should log error string and exit', () => {
+    it('should throw a CLIError for error strings without exiting', () => {
         const cli = new CLI({ commandName: 'app' });
         const cmd = new TestCommand(cli);
-        cmd.error('fail', 1);
-        expect(consoleLogSpy).toHaveBeenCalledWith(pc.red('✖ fail'));
-        expect(process.exit).toHaveBeenCalledWith(1);
+        expect(() => cmd.error('fail', 1)).toThrow(expect.objectContaining({ message: 'fail', exitCode: 1 }));
+        expect(process.exit).not.toHaveBeenCalled();
     });
 
-    it('should log error object and exit', () => {
+    it('should throw a CLIError wrapping error objects', () => {
         const cli = new CLI({ commandName: 'app' });
         const cmd = new TestCommand(cli);
         const err = new Error('fail');
-        cmd.error(err, 2);
-        expect(consoleLogSpy).toHaveBeenCalledWith(pc.red('✖ fail'));
-        expect(process.exit).toHaveBeenCalledWith(2);
+
+        try {
+            cmd.error(err, 2);
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(CLIError);
+            expect(e.message).toBe('fail');
+            expect(e.exitCode).toBe(2);
+            expect(e.cause).toBe(err);
+        }
+        expect.assertions(4);
     });
 
-    it('should log error object stack in debug mode', () => {
+    it('should print through the output of the current run', async () => {
         const cli = new CLI({ commandName: 'app' });
-        const cmd = new TestCommand(cli, { debug: true });
-        const err = new Error('fail');
-        cmd.error(err);
-        expect(consoleLogSpy).toHaveBeenCalledWith(pc.red('✖ fail'));
-        expect(logger.error).toHaveBeenCalledWith(err.stack); // Stack is still logged via logger in debug
+        const output = { log: vi.fn(), error: vi.fn() };
+        vi.spyOn(cli, 'getContext').mockReturnValue({ cwd: '/tmp', env: {}, stdin: process.stdin, output });
+        const cmd = new TestCommand(cli);
+
+        cmd.success('done');
+
+        expect(output.log).toHaveBeenCalledWith(pc.green('✔ done'));
+        expect(consoleLogSpy).not.toHaveBeenCalled();
+    });
+
+    it('should find the project root from the working directory of the run', async () => {
+        const cli = new CLI({ commandName: 'app' });
+        vi.spyOn(cli, 'getContext').mockReturnValue({ cwd: '/work/dir', env: {}, stdin: process.stdin, output: { log: vi.fn(), error: vi.fn() } });
+        const cmd = new TestCommand(cli);
+
+        await cmd.init();
+
+        expect(ConfigUtils.findProjectRoot).toHaveBeenCalledWith('app', '/work/dir', undefined);
     });
 
-    it('should skip config loading if project root is not found', async () => {
+    it('should only load the user and environment layers if project root is not found', async () => {
         (ConfigUtils.findProjectRoot as any).mockResolvedValue(null);
         const cli = new CLI({ commandName: 'app' });
         const cmd = new TestCommand(cli, {});
         await cmd.init();
         expect((cmd as any).projectRoot).toBeNull();
-        expect(ConfigUtils.loadConfig).not.toHaveBeenCalled();
+        expect(ConfigUtils.loadLayeredConfig).toHaveBeenCalledWith('app', null, expect.anything());
         expect((cmd as any).config).toEqual({});
     });
 
@@ -179,7 +220,40 @@ describe('BaseCommand', () => {
 
         const res = await cmd.prompt('Enter value');
 
-        expect(consola.prompt).toHaveBeenCalledWith('Enter value', { type: 'text' });
+        expect(consola.prompt).toHaveBeenCalledWith('Enter value', { type: 'text', cancel: 'symbol' });
         expect(res).toBe('user input');
     });
+
+    it('should throw UserCancelledError when the prompt is cancelled', async () => {
+        const cli = new CLI({ commandName: 'app' });
+        const cmd = new TestCommand(cli);
+        (consola.prompt as any).mockResolvedValue(Symbol.for('cancel'));
+
+        await expect(cmd.prompt('Enter value')).rejects.toThrow(UserCancelledError);
+    });
+
+    it('should read prompt answers from the input given to the run', async () => {
+        const cli = new CLI({ commandName: 'app' });
+        const readLine = vi.fn().mockResolvedValue('piped answer');
+        vi.spyOn(cli, 'getContext').mockReturnValue({ cwd: '/tmp', env: {}, stdin: process.stdin, output: { log: vi.fn(), error: vi.fn() }, readLine });
+        const cmd = new TestCommand(cli);
+
+        const res = await cmd.prompt('Enter value');
+
+        expect(res).toBe('piped answer');
+        expect(consola.prompt).not.toHaveBeenCalled();
+    });
+
+    it('should run shell commands in the working directory and output of the run', async () => {
+        const cli = new CLI({ commandName: 'app' });
+        const output = new CapturingOutput();
+        const cwd = realpathSync(os.tmpdir());
+        vi.spyOn(cli, 'getContext').mockReturnValue({ cwd, env: { ...process.env, APP_GREETING: 'hi' }, stdin: process.stdin, output });
+        const cmd = new TestCommand(cli);
+
+        await cmd.exec('node -e "console.log(process.cwd(), process.env.APP_GREETING)"');
+
+        expect(output.stdout).toBe(`${cwd} hi\n`);
+        expect(consoleLogSpy).not.toHaveBeenCalled();
+    });
 });
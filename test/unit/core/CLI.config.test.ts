@@ -1,11 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CLI } from '../../../src/CLI.js';
 import { CommandLoader } from '../../../src/CommandLoader.js';
+import { PluginLoader } from '../../../src/PluginLoader.js';
 import { cac } from 'cac';
 import fs from 'node:fs';
 
 vi.mock('cac');
 vi.mock('../../../src/CommandLoader.js');
+vi.mock('../../../src/PluginLoader.js');
 vi.mock('node:fs');
 vi.mock('../../../src/utils/logger.js', () => ({
     logger: {
@@ -14,7 +16,8 @@ vi.mock('../../../src/utils/logger.js', () => ({
         info: vi.fn(),
         warn: vi.fn(),
     },
-    setDebugMode: vi.fn()
+    setDebugMode: vi.fn(),
+    captureLogs: vi.fn(() => () => {})
 }));
 
 describe('CLI Configuration', () => {
@@ -32,6 +35,7 @@ describe('CLI Configuration', () => {
             help: vi.fn(),
             version: vi.fn(),
             parse: vi.fn(),
+            runMatchedCommand: vi.fn(),
         };
         (cac as any).mockReturnValue(mockCac);
 
@@ -39,10 +43,13 @@ describe('CLI Configuration', () => {
         (CommandLoader as any).mockImplementation(function () {
             return {
                 load: mockLoad,
-                getCommands: () => []
+                getCommands: () => [],
+                getDiagnostics: () => [],
+                reset: vi.fn()
             };
         });
         (fs.existsSync as any).mockReturnValue(true);
+        (PluginLoader.prototype.discover as any).mockReturnValue([]);
     });
 
     it('should use default command name "app" if no config provided', () => {
@@ -72,8 +79,8 @@ describe('CLI Configuration', () => {
 
         await cli.start();
 
-        // Should try default paths (2) + core commands (1) = 3
-        expect(mockLoad).toHaveBeenCalledTimes(3);
+        // Should try <cwd>/commands (1) + core commands (1) = 2
+        expect(mockLoad).toHaveBeenCalledTimes(2);
     });
 
     it('should fallback to default logic if searchDirectories is undefined', async () => {
@@ -82,6 +89,6 @@ describe('CLI Configuration', () => {
 
         await cli.start();
 
-        expect(mockLoad).toHaveBeenCalledTimes(3);
+        expect(mockLoad).toHaveBeenCalledTimes(2);
     });
 });
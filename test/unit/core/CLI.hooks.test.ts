@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CLI, CLIConfig } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { ConfigError, ExitCode } from '../../../src/errors.js';
+import { z } from 'zod';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('../../../src/utils/logger.js', () => ({
+    logger: {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    },
+    setDebugMode: vi.fn(),
+    captureLogs: vi.fn(() => () => {})
+}));
+
+const runSpy = vi.fn();
+
+class DeployCommand extends BaseCommand {
+    static args = {
+        args: [{ name: 'target', required: true }],
+        options: [{ name: '--fail', description: 'Fail the deployment' }]
+    };
+    async init() {
+        this.projectRoot = '/project';
+        this.config = { region: 'eu' };
+    }
+    async run(options: any) {
+        runSpy(options);
+        if (options.fail) throw new Error('Deployment failed');
+    }
+}
+
+describe('CLI lifecycle hooks', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function createCli(config: CLIConfig) {
+        const cli = new CLI({ commandName: 'app', searchDirectories: ['/commands'], ...config });
+        vi.spyOn((cli as any).loader, 'load').mockResolvedValue([]);
+        vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+            { command: 'cloud deploy', path: '/commands/cloud/deploy.ts', class: DeployCommand }
+        ]);
+        return cli;
+    }
+
+    it('should run hooks around the command with its context', async () => {
+        const calls: string[] = [];
+        const cli = createCli({
+            hooks: {
+                beforeInit: (ctx) => { calls.push(`beforeInit:${ctx.command}:${ctx.instance === undefined}`); },
+                beforeRun: (ctx) => { calls.push(`beforeRun:${ctx.projectRoot}:${ctx.config.region}`); },
+                afterRun: (ctx) => { calls.push(`afterRun:${ctx.options.target}`); }
+            }
+        });
+
+        const result = await cli.run(['cloud', 'deploy', 'prod']);
+
+        expect(result.exitCode).toBe(0);
+        expect(calls).toEqual(['beforeInit:cloud deploy:true', 'beforeRun:/project:eu', 'afterRun:prod']);
+        expect(runSpy).toHaveBeenCalled();
+    });
+
+    it('should run the command with options rewritten by hooks', async () => {
+        const cli = createCli({
+            hooks: {
+                beforeInit: (ctx) => { ctx.options = { ...ctx.options, target: 'staging' }; }
+            }
+        });
+
+        await cli.run(['cloud', 'deploy', 'prod']);
+
+        expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({ target: 'staging' }));
+    });
+
+    it('should give beforeInit hooks the project and its config', async () => {
+        const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'hooks-project-')));
+        try {
+            fs.writeFileSync(path.join(root, 'app.yml'), 'region: us\n');
+            let seen: any;
+            const cli = createCli({
+                hooks: {
+                    beforeInit: (ctx) => { seen = { root: ctx.projectRoot, region: ctx.config.region, project: ctx.project?.root }; }
+                }
+            });
+
+            const result = await cli.run(['cloud', 'deploy', 'prod'], { cwd: root });
+
+            expect(result.exitCode).toBe(0);
+            expect(seen).toEqual({ root, region: 'us', project: root });
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    it('should validate the options set by hooks', async () => {
+        class ScaleCommand extends BaseCommand {
+            static args = { options: [{ name: '--replicas <n>', schema: z.number().int().optional() }, { name: '--tags <list>', schema: z.string().transform(value => value.split(',')) }] };
+            async run(options: any) { runSpy(options); }
+        }
+        const cli = createCli({
+            hooks: {
+                beforeInit: (ctx) => { ctx.options.replicas = '3'; },
+                beforeRun: (ctx) => { ctx.options = { ...ctx.options, replicas: ctx.command === 'scale' ? 'many' : 1 }; }
+            }
+        });
+        vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+            { command: 'scale', path: '/commands/scale.ts', class: ScaleCommand },
+            { command: 'resize', path: '/commands/resize.ts', class: ScaleCommand }
+        ]);
+
+        const resized = await cli.run(['resize', '--tags', 'a,b']);
+        expect(resized.exitCode).toBe(0);
+        // Values left alone by the hooks are not parsed again
+        expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({ replicas: 1, tags: ['a', 'b'] }));
+
+        runSpy.mockClear();
+        const scaled = await cli.run(['scale', '--tags', 'a']);
+        expect(scaled.exitCode).toBe(ExitCode.Usage);
+        expect(scaled.stderr).toContain('Invalid value for --replicas');
+        expect(runSpy).not.toHaveBeenCalled();
+    });
+
+    it('should skip the command when a hook stops the execution', async () => {
+        const afterRun = vi.fn();
+        const cli = createCli({
+            hooks: {
+                beforeRun: (ctx) => ctx.stop(7),
+                afterRun
+            }
+        });
+
+        const result = await cli.run(['cloud', 'deploy', 'prod']);
+
+        expect(result.exitCode).toBe(7);
+        expect(runSpy).not.toHaveBeenCalled();
+        expect(afterRun).not.toHaveBeenCalled();
+    });
+
+    it('should report errors thrown by hooks', async () => {
+        const cli = createCli({
+            hooks: {
+                beforeRun: () => { throw new ConfigError('Not logged in'); }
+            }
+        });
+
+        const result = await cli.run(['cloud', 'deploy', 'prod']);
+
+        expect(result.exitCode).toBe(ExitCode.Config);
+        expect(result.stderr).toContain('Not logged in');
+        expect(runSpy).not.toHaveBeenCalled();
+    });
+
+    it('should notify onError hooks and let them handle or replace the error', async () => {
+        const onError = vi.fn();
+        const afterRun = vi.fn();
+        const handled = createCli({
+            hooks: { onError, afterRun },
+            plugins: [{ name: 'audit', hooks: { onError: (_error, ctx) => ctx.stop(0) } }]
+        });
+
+        const result = await handled.run(['cloud', 'deploy', 'prod', '--fail']);
+
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Deployment failed' }), expect.anything());
+        expect(afterRun).not.toHaveBeenCalled();
+        expect(result.exitCode).toBe(0);
+        expect(result.stderr).toBe('');
+
+        const replaced = createCli({
+            hooks: { onError: () => { throw new ConfigError('Rollback required'); } }
+        });
+
+        const replacedResult = await replaced.run(['cloud', 'deploy', 'prod', '--fail']);
+
+        expect(replacedResult.exitCode).toBe(ExitCode.Config);
+        expect(replacedResult.stderr).toContain('Rollback required');
+    });
+
+    it('should run config hooks before plugin hooks', async () => {
+        const calls: string[] = [];
+        const cli = createCli({
+            hooks: { beforeRun: () => { calls.push('config'); } },
+            plugins: [
+                { name: 'auth', hooks: { beforeRun: () => { calls.push('auth'); } } },
+                { name: 'timing' }
+            ]
+        });
+
+        await cli.run(['cloud', 'deploy', 'prod']);
+
+        expect(calls).toEqual(['config', 'auth']);
+    });
+});
@@ -53,6 +53,7 @@ describe('CLI Nested Command Defaults', () => {
             help: vi.fn(),
             version: vi.fn(),
             parse: vi.fn(),
+            runMatchedCommand: vi.fn(),
             option: vi.fn().mockReturnThis(),
             outputHelp: vi.fn(),
         };
@@ -81,17 +82,16 @@ describe('CLI Nested Command Defaults', () => {
         // Start to register commands
         await cli.start();
 
-        // Expect command to be registered
-        // "nested" is root, "nested [subcommand] [...args]" is registered
-        const commandCall = mockCac.command.mock.calls.find((call: any) => call[0].startsWith('nested'));
-        expect(commandCall).toBeDefined();
+        // Expect command to be registered under its full path
+        // "nested" is the namespace, "nested command" the subcommand
+        expect(mockCac.command).toHaveBeenCalledWith('nested command', 'A nested command with defaults');
 
-        // Get the action handler
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        // Get the action handler ('nested' namespace is registered first)
+        const actionFn = mockCommand.action.mock.calls[1][0];
 
-        // Simulate invocation: nested command (subcommand="command")
+        // Simulate invocation: nested command
         // options undefined/empty implies defaults should be applied
-        await actionFn('command', {});
+        await actionFn({});
 
         expect(runCommandSpy).toHaveBeenCalled();
         const calledOptions = runCommandSpy.mock.calls[0][1];
@@ -115,10 +115,10 @@ describe('CLI Nested Command Defaults', () => {
 
         await cli.start();
 
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        const actionFn = mockCommand.action.mock.calls[1][0];
 
         // Simulate invocation with custom options
-        await actionFn('command', { repo: 'custom-repo' });
+        await actionFn({ repo: 'custom-repo' });
 
         expect(runCommandSpy).toHaveBeenCalled();
         const calledOptions = runCommandSpy.mock.calls[0][1];
@@ -0,0 +1,403 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PassThrough, Readable } from 'node:stream';
+import { z } from 'zod';
+import { CLI } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { captureLogs, logger } from '../../../src/utils/logger.js';
+import { ConfigError, ExitCode, ExternalToolError, UsageError } from '../../../src/errors.js';
+
+vi.mock('../../../src/utils/logger.js', () => ({
+    logger: {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    },
+    setDebugMode: vi.fn(),
+    captureLogs: vi.fn(() => () => {})
+}));
+
+class GreetCommand extends BaseCommand {
+    static description = 'Greet someone';
+    static args = { args: [{ name: 'name', required: true }] };
+    async init() { }
+    async run(options: any) {
+        this.success(`Hello ${options.name}`);
+    }
+}
+
+class WhereCommand extends BaseCommand {
+    async init() { }
+    async run() {
+        this.info(`cwd=${this.context.cwd} stage=${this.context.env.STAGE}`);
+    }
+}
+
+class FailCommand extends BaseCommand {
+    async init() { }
+    async run() {
+        this.error('Something broke', 4);
+    }
+}
+
+class ThrowCommand extends BaseCommand {
+    static args = { options: [{ name: '--kind <kind>', description: 'Error to throw' }] };
+    async init() { }
+    async run(options: any) {
+        switch (options.kind) {
+            case 'config': throw new ConfigError('Invalid config', { hint: 'Check app.yml' });
+            case 'tool': throw new ExternalToolError('git pull', { toolExitCode: 1 });
+            case 'usage': throw new UsageError('Pick one of --a or --b');
+            default: throw new Error('Unexpected failure');
+        }
+    }
+}
+
+class LoginCommand extends BaseCommand {
+    static args = {
+        options: [
+            { name: '--token <token>', description: 'API token', env: 'MYCLI_TOKEN' },
+            { name: '--region <region>', description: 'Region', default: 'eu' },
+            { name: '--no-color', description: 'Disable colors' }
+        ]
+    };
+    async init() { }
+    async run(options: any) {
+        this.info(`token=${options.token} region=${options.region} color=${options.color}`);
+    }
+}
+
+let projectConfig: any = {};
+let projectConfigPath: string | null = '/work/app.json';
+
+class PublishCommand extends BaseCommand {
+    static args = {
+        options: [
+            { name: '--registry <url>', description: 'Registry', env: 'APP_REGISTRY', default: 'https://default' },
+            { name: '--retries <n>', description: 'Retries', schema: z.number().int().default(1) },
+            { name: '--dry-run', description: 'Dry run' }
+        ]
+    };
+    async init() {
+        this.config = projectConfig;
+        this.projectContext = { config: projectConfig, configPath: projectConfigPath } as any;
+    }
+    async run(options: any) {
+        this.info(`registry=${options.registry} retries=${options.retries} dryRun=${options.dryRun}`);
+    }
+}
+
+class AskCommand extends BaseCommand {
+    async init() { }
+    async run() {
+        const first = await this.prompt('First?');
+        const second = await this.prompt('Second?');
+        this.info(`answers=${first},${second}`);
+    }
+}
+
+class PushCommand extends BaseCommand {
+    static deprecated = { since: '2.0.0', replacement: 'pkg publish' };
+    async init() { }
+    async run() {
+        this.info('pushed');
+    }
+}
+
+class PreviewCommand extends BaseCommand {
+    static experimental = true;
+    async init() {
+        this.projectContext = { config: projectConfig } as any;
+    }
+    async run() {
+        this.info('previewing');
+    }
+}
+
+describe('CLI.run', () => {
+    let cli: CLI;
+    let exitSpy: any;
+    let logSpy: any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
+        logSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
+
+        cli = new CLI({ commandName: 'app', version: '1.2.3', searchDirectories: ['/commands'] });
+        vi.spyOn((cli as any).loader, 'load').mockResolvedValue([]);
+        vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+            { command: 'greet', path: '/commands/greet.ts', class: GreetCommand },
+            { command: 'where', path: '/commands/where.ts', class: WhereCommand },
+            { command: 'fail', path: '/commands/fail.ts', class: FailCommand },
+            { command: 'ask', path: '/commands/ask.ts', class: AskCommand },
+            { command: 'throw', path: '/commands/throw.ts', class: ThrowCommand },
+            { command: 'login', path: '/commands/login.ts', class: LoginCommand },
+            { command: 'pkg publish', path: '/commands/pkg/publish.ts', class: PublishCommand },
+            { command: 'push', path: '/commands/push.ts', class: PushCommand },
+            { command: 'preview', path: '/commands/preview.ts', class: PreviewCommand }
+        ]);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should capture the output of a command and resolve with exit code 0', async () => {
+        const result = await cli.run(['greet', 'ada']);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('✔ Hello ada');
+        expect(result.stderr).toBe('');
+        expect(logSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resolve with the exit code of a failing command without exiting', async () => {
+        const result = await cli.run(['fail']);
+
+        expect(result.exitCode).toBe(4);
+        expect(result.stderr).toContain('✖ Something broke');
+        expect(exitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should report usage errors through the exit code', async () => {
+        const result = await cli.run(['greet']);
+
+        expect(result.exitCode).toBe(2);
+        expect(result.stderr).toContain('Missing required argument: name');
+        expect(exitSpy).not.toHaveBeenCalled();
+    });
+
+    describe('error rendering', () => {
+        let helpSpy: any;
+
+        beforeEach(() => {
+            helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+        });
+
+        it('should print the hint and exit code of CLI errors without help', async () => {
+            const result = await cli.run(['throw', '--kind', 'config']);
+
+            expect(result.exitCode).toBe(ExitCode.Config);
+            expect(result.stderr).toContain('✖ Invalid config');
+            expect(result.stderr).toContain('Check app.yml');
+            expect(helpSpy).not.toHaveBeenCalled();
+        });
+
+        it('should report failed external tools', async () => {
+            const result = await cli.run(['throw', '--kind', 'tool']);
+
+            expect(result.exitCode).toBe(ExitCode.ExternalTool);
+            expect(result.stderr).toContain('Command failed: git pull');
+        });
+
+        it('should show the command help for usage errors', async () => {
+            const result = await cli.run(['throw', '--kind', 'usage']);
+
+            expect(result.exitCode).toBe(ExitCode.Usage);
+            expect(helpSpy).toHaveBeenCalledWith(['throw']);
+        });
+
+        it('should exit with 1 for unexpected errors', async () => {
+            const result = await cli.run(['throw']);
+
+            expect(result.exitCode).toBe(ExitCode.Error);
+            expect(result.stderr).toContain('Unexpected failure');
+            expect(helpSpy).not.toHaveBeenCalled();
+        });
+
+        it('should print the stack in debug mode', async () => {
+            const result = await cli.run(['throw', '--debug']);
+
+            expect(result.stderr).toContain('at ThrowCommand.run');
+        });
+
+        it('should turn unknown options into usage errors with a hint', async () => {
+            const result = await cli.run(['throw', '--kin', 'config']);
+
+            expect(result.exitCode).toBe(ExitCode.Usage);
+            expect(result.stderr).toContain('Did you mean `--kind`?');
+            expect(helpSpy).toHaveBeenCalledWith(['throw']);
+        });
+    });
+
+    it('should run commands in the given working directory and environment', async () => {
+        const result = await cli.run(['where'], { cwd: '/some/project', env: { STAGE: 'test' } });
+
+        expect(result.stdout).toContain('cwd=/some/project stage=test');
+    });
+
+    describe('environment bindings', () => {
+        it('should read options from their declared environment variable', async () => {
+            const result = await cli.run(['login'], { env: { MYCLI_TOKEN: 'secret' } });
+
+            expect(result.stdout).toContain('token=secret region=eu');
+        });
+
+        it('should prefer flags over environment variables', async () => {
+            const result = await cli.run(['login', '--token', 'flag'], { env: { MYCLI_TOKEN: 'secret' } });
+
+            expect(result.stdout).toContain('token=flag');
+        });
+
+        it('should bind <NAME>_<OPTION> variables when autoEnv is enabled', async () => {
+            const env = { APP_REGION: 'us', APP_COLOR: 'false' };
+
+            const disabled = await cli.run(['login'], { env });
+            expect(disabled.stdout).toContain('region=eu color=true');
+
+            (cli as any).config.autoEnv = true;
+            const enabled = await cli.run(['login'], { env });
+            expect(enabled.stdout).toContain('region=us color=false');
+
+            const flagged = await cli.run(['login', '--region', 'ap'], { env });
+            expect(flagged.stdout).toContain('region=ap');
+        });
+    });
+
+    describe('project config', () => {
+        beforeEach(() => {
+            projectConfig = {
+                commands: { 'pkg publish': { registry: 'https://config', retries: '3', 'dry-run': true } }
+            };
+        });
+
+        it('should supply option values from the command section', async () => {
+            const result = await cli.run(['pkg', 'publish']);
+
+            expect(result.stdout).toContain('registry=https://config retries=3 dryRun=true');
+        });
+
+        it('should apply precedence flag > env > config > default', async () => {
+            const fromEnv = await cli.run(['pkg', 'publish'], { env: { APP_REGISTRY: 'https://env' } });
+            expect(fromEnv.stdout).toContain('registry=https://env');
+
+            const fromFlag = await cli.run(['pkg', 'publish', '--registry', 'https://flag'], { env: { APP_REGISTRY: 'https://env' } });
+            expect(fromFlag.stdout).toContain('registry=https://flag');
+
+            projectConfig = {};
+            const fromDefault = await cli.run(['pkg', 'publish']);
+            expect(fromDefault.stdout).toContain('registry=https://default retries=1');
+        });
+
+        it('should report invalid config values as config errors', async () => {
+            projectConfig = { commands: { 'pkg publish': { retries: 'many' } } };
+
+            const result = await cli.run(['pkg', 'publish']);
+
+            expect(result.exitCode).toBe(ExitCode.Config);
+            expect(result.stderr).toContain('Invalid value for --retries');
+            expect(result.stderr).toContain("Check the 'pkg publish' entry under 'commands' in /work/app.json.");
+
+            projectConfigPath = null;
+            const outside = await cli.run(['pkg', 'publish']);
+            projectConfigPath = '/work/app.json';
+            expect(outside.stderr).toContain("Check the 'pkg publish' entry under 'commands' in the app config.");
+        });
+
+        it('should trace the source of each option value', async () => {
+            await cli.run(['pkg', 'publish', '--registry', 'https://flag']);
+
+            expect(logger.debug).toHaveBeenCalledWith('[pkg publish] --registry = "https://flag" (flag)');
+            expect(logger.debug).toHaveBeenCalledWith('[pkg publish] --retries = 3 (config)');
+            expect(logger.debug).toHaveBeenCalledWith('[pkg publish] --dry-run = true (config)');
+        });
+    });
+
+    it('should forward output to the given streams', async () => {
+        const stdout = new PassThrough();
+        const chunks: string[] = [];
+        stdout.on('data', chunk => chunks.push(chunk.toString()));
+
+        const result = await cli.run(['greet', 'bob'], { stdout });
+
+        expect(chunks.join('')).toBe(result.stdout);
+    });
+
+    it('should answer prompts from the given stdin', async () => {
+        const result = await cli.run(['ask'], { stdin: Readable.from(['yes\nno\n']) });
+
+        expect(result.stdout).toContain('? First?');
+        expect(result.stdout).toContain('answers=yes,no');
+    });
+
+    it('should print the version', async () => {
+        const result = await cli.run(['--version']);
+
+        expect(result.stdout).toContain('app/1.2.3');
+        expect(result.exitCode).toBe(0);
+    });
+
+    it('should load commands once across runs', async () => {
+        const load = (cli as any).loader.load;
+        await cli.run(['greet', 'ada']);
+        const loadCalls = load.mock.calls.length;
+        const second = await cli.run(['greet', 'grace']);
+
+        expect(load).toHaveBeenCalledTimes(loadCalls);
+        expect(second.stdout).toContain('Hello grace');
+        expect(second.stdout).not.toContain('Hello ada');
+    });
+
+    it('should run concurrent runs one after the other', async () => {
+        const [first, second] = await Promise.all([
+            cli.run(['where'], { cwd: '/a', env: { STAGE: 'a' } }),
+            cli.run(['where'], { cwd: '/b', env: { STAGE: 'b' } })
+        ]);
+
+        expect(first.stdout).toBe('cwd=/a stage=a\n');
+        expect(second.stdout).toBe('cwd=/b stage=b\n');
+    });
+
+    it('should capture the logs of each run until it ends', async () => {
+        const restore = vi.fn();
+        vi.mocked(captureLogs).mockReturnValueOnce(restore);
+
+        const result = await cli.run(['greet', 'ada'], { env: {} });
+
+        expect(captureLogs).toHaveBeenCalledWith(expect.objectContaining({ stdout: result.stdout }));
+        expect(restore).toHaveBeenCalledTimes(1);
+    });
+
+    it('should exit from start() only when the run fails', async () => {
+        vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+        const originalArgv = process.argv;
+
+        try {
+            process.argv = ['node', 'app', 'greet', 'ada'];
+            await cli.start();
+            expect(exitSpy).not.toHaveBeenCalled();
+
+            process.argv = ['node', 'app', 'fail'];
+            await cli.start();
+            expect(exitSpy).toHaveBeenCalledWith(4);
+        } finally {
+            process.argv = originalArgv;
+        }
+    });
+
+    it('should warn before running deprecated commands', async () => {
+        const result = await cli.run(['push']);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toBe('pushed\n');
+        expect(result.stderr).toContain("⚠ 'app push' is deprecated since 2.0.0. Use 'app pkg publish' instead.");
+    });
+
+    it('should refuse experimental commands unless enabled in the config', async () => {
+        projectConfig = {};
+        const refused = await cli.run(['preview']);
+        expect(refused.exitCode).toBe(ExitCode.Usage);
+        expect(refused.stdout).toBe('');
+        expect(refused.stderr).toContain("'app preview' is experimental.");
+        expect(refused.stderr).toContain('APP_EXPERIMENTAL=true');
+
+        projectConfig = { experimental: ['preview'] };
+        expect((await cli.run(['preview'])).stdout).toBe('previewing\n');
+
+        projectConfig = { experimental: true };
+        expect((await cli.run(['preview'])).stdout).toBe('previewing\n');
+        projectConfig = {};
+    });
+});
@@ -1,13 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CLI } from '../../../src/CLI.js';
 import { CommandLoader } from '../../../src/CommandLoader.js';
+import { PluginLoader } from '../../../src/PluginLoader.js';
 import { BaseCommand } from '../../../src/BaseCommand.js';
+import { ExitCode } from '../../../src/errors.js';
 import { cac } from 'cac';
 import fs from 'node:fs';
 import path from 'node:path';
+import { z } from 'zod';
 
 vi.mock('cac');
 vi.mock('../../../src/CommandLoader.js');
+vi.mock('../../../src/PluginLoader.js');
 vi.mock('node:fs');
 vi.mock('../../../src/utils/logger.js', () => ({
     logger: {
@@ -16,7 +20,8 @@ vi.mock('../../../src/utils/logger.js', () => ({
         info: vi.fn(),
         warn: vi.fn(),
     },
-    setDebugMode: vi.fn()
+    setDebugMode: vi.fn(),
+    captureLogs: vi.fn(() => () => {})
 }));
 
 import { setDebugMode, logger } from '../../../src/utils/logger.js';
@@ -38,6 +43,7 @@ describe('CLI', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
+        (PluginLoader.prototype.discover as any).mockReturnValue([]);
 
         mockCommand = {
             option: vi.fn().mockReturnThis(),
@@ -50,6 +56,7 @@ describe('CLI', () => {
             help: vi.fn(),
             version: vi.fn(),
             parse: vi.fn(),
+            runMatchedCommand: vi.fn(),
             option: vi.fn().mockReturnThis(),
             outputHelp: vi.fn(),
         };
@@ -62,7 +69,9 @@ describe('CLI', () => {
         (CommandLoader as any).mockImplementation(function () {
             return {
                 load: mockLoad,
-                getCommands: mockGetCommands
+                getCommands: mockGetCommands,
+                getDiagnostics: () => [],
+                reset: vi.fn()
             };
         });
     });
@@ -75,8 +84,9 @@ describe('CLI', () => {
 
         expect(mockLoad).toHaveBeenCalled();
         // expect(mockCac.help).toHaveBeenCalled(); // Default help disabled
-        expect(mockCac.version).toHaveBeenCalled();
+        expect(mockCac.option).toHaveBeenCalledWith('-v, --version', 'Display version number');
         expect(mockCac.parse).toHaveBeenCalled();
+        expect(mockCac.runMatchedCommand).toHaveBeenCalled();
     });
 
     it('should enable debug mode if --debug flag is present', async () => {
@@ -97,29 +107,31 @@ describe('CLI', () => {
     it('should search for commands in multiple directories', async () => {
         const cli = new CLI();
         (fs.existsSync as any)
-            .mockReturnValueOnce(false)
-            .mockReturnValueOnce(true); // second path found
+            .mockReturnValueOnce(true) // <cwd>/commands
+            .mockReturnValueOnce(true); // core commands
 
         await cli.start();
-        expect(fs.existsSync).toHaveBeenCalledTimes(3);
-        expect(mockLoad).toHaveBeenCalled();
-        expect(fs.existsSync).toHaveBeenCalledTimes(3);
-        expect(mockLoad).toHaveBeenCalled();
+        expect(fs.existsSync).toHaveBeenCalledTimes(2);
+        // The commands of the cwd load before (and so override) the core commands
+        expect(mockLoad.mock.calls.map(([dir]: string[]) => dir)).toEqual([
+            path.resolve(process.cwd(), 'commands'),
+            expect.stringMatching(/commands$/)
+        ]);
+        expect(mockLoad.mock.calls[1][0]).not.toBe(path.resolve(process.cwd(), 'commands'));
     });
 
     it('should fallback to src/commands if ./commands missing (bundling support)', async () => {
         const cli = new CLI();
-        // searchDirectories default check: returns false for both default paths
+        // searchDirectories default check: returns false for <cwd>/commands
         // then coreCommandsDir (./commands) -> false
         // then coreCommandsDirSrc (./src/commands) -> true
         (fs.existsSync as any)
-            .mockReturnValueOnce(false)
             .mockReturnValueOnce(false)
             .mockReturnValueOnce(false)
             .mockReturnValueOnce(true);
 
         await cli.start();
-        expect(fs.existsSync).toHaveBeenCalledTimes(4);
+        expect(fs.existsSync).toHaveBeenCalledTimes(3);
         expect(mockLoad).toHaveBeenCalledTimes(1);
         // arguments of load should contain src/commands path
         // but verifying exact path is hard due to resolve.
@@ -128,7 +140,7 @@ describe('CLI', () => {
     it('should register loaded commands', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -145,7 +157,7 @@ describe('CLI', () => {
     it('should handle command execution', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -170,7 +182,7 @@ describe('CLI', () => {
     it('should handle command execution errors', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -179,19 +191,97 @@ describe('CLI', () => {
         const actionFn = mockCommand.action.mock.calls[0][0];
 
         vi.spyOn(MockCommand.prototype, 'init').mockRejectedValue(new Error('Init failed'));
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
         const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
 
-        await actionFn('arg1', {}, {});
+        const exitCode = await actionFn('arg1', {}, {});
 
         expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Init failed'));
-        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(exitCode).toBe(1);
+    });
+
+    it('should report errors raised through this.error() with their exit code', async () => {
+        const cli = new CLI();
+        class FailingCommand extends BaseCommand {
+            async init() { }
+            async run() { this.error('Deployment failed', 3); }
+        }
+        mockGetCommands.mockReturnValue([
+            { command: 'deploy', class: FailingCommand }
+        ]);
+        (fs.existsSync as any).mockReturnValue(true);
+
+        await cli.start();
+
+        const actionFn = mockCommand.action.mock.calls[0][0];
+        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+        const helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+
+        const exitCode = await actionFn({});
+
+        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('✖ Deployment failed'));
+        expect(helpSpy).not.toHaveBeenCalled();
+        expect(exitCode).toBe(3);
+    });
+
+    it('should coerce option values using declared schemas', async () => {
+        const cli = new CLI();
+        class TypedCommand extends BaseCommand {
+            static args = {
+                args: [{ name: 'target', required: true, schema: z.enum(['dev', 'prod']) }],
+                options: [{ name: '--count <n>', description: 'Count', schema: z.number().int().default(1) }]
+            };
+            async run() { }
+        }
+        mockGetCommands.mockReturnValue([
+            { command: 'deploy', class: TypedCommand }
+        ]);
+        (fs.existsSync as any).mockReturnValue(true);
+
+        await cli.start();
+
+        const actionFn = mockCommand.action.mock.calls[0][0];
+        vi.spyOn(TypedCommand.prototype, 'init').mockResolvedValue(undefined);
+        const runSpy = vi.spyOn(TypedCommand.prototype, 'run');
+
+        await actionFn('prod', { count: '3' });
+
+        expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({ target: 'prod', count: 3 }));
+    });
+
+    it('should reject invalid option values before running the command', async () => {
+        const cli = new CLI();
+        class TypedCommand extends BaseCommand {
+            static args = {
+                args: [{ name: 'target', required: true, schema: z.enum(['dev', 'prod']) }],
+                options: [{ name: '--count <n>', description: 'Count', schema: z.number() }]
+            };
+            async run() { }
+        }
+        mockGetCommands.mockReturnValue([
+            { command: 'deploy', class: TypedCommand }
+        ]);
+        (fs.existsSync as any).mockReturnValue(true);
+
+        await cli.start();
+
+        const actionFn = mockCommand.action.mock.calls[0][0];
+        const initSpy = vi.spyOn(TypedCommand.prototype, 'init');
+        const runSpy = vi.spyOn(TypedCommand.prototype, 'run');
+        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        const exitCode = await actionFn('staging', { count: 'many' });
+
+        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid value for <target>'));
+        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid value for --count'));
+        expect(initSpy).not.toHaveBeenCalled();
+        expect(runSpy).not.toHaveBeenCalled();
+        expect(exitCode).toBe(ExitCode.Usage);
     });
 
     it('should print stack trace in debug mode', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -201,7 +291,6 @@ describe('CLI', () => {
 
         vi.spyOn(MockCommand.prototype, 'init').mockRejectedValue(new Error('Init failed'));
         const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
-        vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
 
         await actionFn('arg1', { debug: true });
 
@@ -213,13 +302,10 @@ describe('CLI', () => {
         (fs.existsSync as any).mockReturnValue(true);
         mockCac.parse.mockImplementation(() => { throw new Error('Parse error'); });
 
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
-        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
-
-        await cli.start();
+        const result = await cli.run([]);
 
-        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Parse error'));
-        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(result.stderr).toContain('Parse error');
+        expect(result.exitCode).toBe(ExitCode.Usage);
     });
 
     it('should show help for detected command on global error', async () => {
@@ -232,34 +318,37 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) },
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'help', class: MockHelpCommand },
+            { command: 'test', class: MockCommand }
         ]);
 
-        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
-
         // Mock parse to throw
         mockCac.parse.mockImplementation(() => { throw new Error('Global error'); });
 
-        // Mock process.argv to simulate 'test' command
-        const originalArgv = process.argv;
-        process.argv = ['node', 'cli', 'test', '--error'];
-
-        try {
-            await cli.start();
-        } finally {
-            process.argv = originalArgv;
-        }
+        const result = await cli.run(['test', '--error']);
 
-        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Global error'));
+        expect(result.stderr).toContain('Global error');
         expect(mockHelpRun).toHaveBeenCalledWith({ command: ['test'] });
-        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(result.exitCode).toBe(ExitCode.Usage);
+    });
+
+    it('should exit the process with the exit code of a failed run', async () => {
+        const cli = new CLI();
+        (fs.existsSync as any).mockReturnValue(true);
+        mockCac.parse.mockImplementation(() => { throw new Error('Parse error'); });
+
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
+        vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+        vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+        await cli.start();
+
+        expect(exitSpy).toHaveBeenCalledWith(ExitCode.Usage);
     });
     it('should handle positional arguments mapping', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -284,7 +373,7 @@ describe('CLI', () => {
     it('should map positional args correctly when fewer provided', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -323,7 +412,7 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'simple', class: SimpleCommand, instance: new SimpleCommand(cli) }
+            { command: 'simple', class: SimpleCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -341,7 +430,7 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'noargs', class: NoArgsCommand, instance: new NoArgsCommand(cli) }
+            { command: 'noargs', class: NoArgsCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -364,7 +453,7 @@ describe('CLI', () => {
         (NoMetadataCommand as any).args = undefined;
 
         mockGetCommands.mockReturnValue([
-            { command: 'nometadata', class: NoMetadataCommand, instance: new NoMetadataCommand(cli) }
+            { command: 'nometadata', class: NoMetadataCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -431,7 +520,7 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'opvar', class: OpVarCommand, instance: new OpVarCommand(cli) }
+            { command: 'opvar', class: OpVarCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -454,41 +543,27 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'group add', class: GroupCommand, instance: new GroupCommand(cli) },
-            { command: 'group remove', class: GroupCommand, instance: new GroupCommand(cli) }
+            { command: 'group add', class: GroupCommand },
+            { command: 'group remove', class: GroupCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         await cli.start();
 
-        // Should register the group root
-        expect(mockCac.command).toHaveBeenCalledWith(
-            expect.stringContaining('group [subcommand] [...args]'),
-            expect.anything()
-        );
+        // Should register the group namespace and each subcommand under its full path
+        expect(mockCac.command).toHaveBeenCalledWith('group [...args]', 'Manage group commands');
+        expect(mockCac.command).toHaveBeenCalledWith('group add [arg1]', '');
+        expect(mockCac.command).toHaveBeenCalledWith('group remove [arg1]', '');
 
-        // Find the action for the group command
-        // Since we registered multiple commands, find the call for 'group ...'
-        const groupCall = mockCac.command.mock.calls.find((call: any) => call[0].startsWith('group'));
-        expect(groupCall).toBeDefined();
-
-        // The processed command object (mockCommand) was returned by mockCac.command
-        // So mockCommand.action was called. We need to know WHICH action call corresponds to this.
-        // But our mockCac.command always returns the SAME mockCommand object.
-        // So mockCommand.action has been called multiple times (for 'test', 'opvar', etc from other tests if we didn't clear mocks properly, but beforeEach does clear).
-        // In THIS test, it's called for 'group ...'.
-
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        // mockCac.command always returns the SAME mockCommand object, so actions are
+        // registered in tree order: 'group' (0), 'group add' (1), 'group remove' (2)
+        const actionFn = mockCommand.action.mock.calls[1][0];
 
         const runSpy = vi.spyOn(GroupCommand.prototype, 'run');
         vi.spyOn(GroupCommand.prototype, 'init').mockResolvedValue(undefined);
 
         // Simulate running: group add val1 --force
-        // Args passed to action: subcommand, ...args, options
-        // subcommand = 'add'
-        // args = [['val1']] (variadic)
-        // options = { force: true }
-        await actionFn('add', ['val1'], { force: true });
+        await actionFn('val1', { force: true });
 
         expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({
             arg1: 'val1',
@@ -499,7 +574,7 @@ describe('CLI', () => {
     it('should handle unknown subcommand', async () => {
         const cli = new CLI();
         mockGetCommands.mockReturnValue([
-            { command: 'group add', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'group add', class: MockCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
@@ -507,14 +582,13 @@ describe('CLI', () => {
 
         const actionFn = mockCommand.action.mock.calls[0][0];
 
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { throw new Error('EXIT'); }) as any);
         const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
 
         // Run unknown subcommand
-        await expect(actionFn('unknown', [], {})).rejects.toThrow('EXIT');
+        const exitCode = await actionFn(['unknown'], {});
 
         expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown subcommand'));
-        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(exitCode).toBe(ExitCode.Usage);
     });
 
     it('should map positional args in subcommand', async () => {
@@ -526,18 +600,18 @@ describe('CLI', () => {
             async run() { }
         }
         mockGetCommands.mockReturnValue([
-            { command: 'sys config', class: SubArgsCommand, instance: new SubArgsCommand(cli) }
+            { command: 'sys config', class: SubArgsCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         await cli.start();
 
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        const actionFn = mockCommand.action.mock.calls[1][0];
         const runSpy = vi.spyOn(SubArgsCommand.prototype, 'run');
         vi.spyOn(SubArgsCommand.prototype, 'init').mockResolvedValue(undefined);
 
         // sys config a b
-        await actionFn('config', ['a', 'b'], {});
+        await actionFn('a', 'b', {});
 
         expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({
             p1: 'a',
@@ -554,17 +628,17 @@ describe('CLI', () => {
             async run() { }
         }
         mockGetCommands.mockReturnValue([
-            { command: 'sys add', class: SubVarCommand, instance: new SubVarCommand(cli) }
+            { command: 'sys add', class: SubVarCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         await cli.start();
 
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        const actionFn = mockCommand.action.mock.calls[1][0];
         const runSpy = vi.spyOn(SubVarCommand.prototype, 'run');
         vi.spyOn(SubVarCommand.prototype, 'init').mockResolvedValue(undefined);
 
-        await actionFn('add', ['f1', 'f2'], {});
+        await actionFn(['f1', 'f2'], {});
 
         expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({
             files: ['f1', 'f2']
@@ -579,17 +653,17 @@ describe('CLI', () => {
         (NoMetaSubCommand as any).args = undefined;
 
         mockGetCommands.mockReturnValue([
-            { command: 'sys plain', class: NoMetaSubCommand, instance: new NoMetaSubCommand(cli) }
+            { command: 'sys plain', class: NoMetaSubCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         await cli.start();
 
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        const actionFn = mockCommand.action.mock.calls[1][0];
         const runSpy = vi.spyOn(NoMetaSubCommand.prototype, 'run');
         vi.spyOn(NoMetaSubCommand.prototype, 'init').mockResolvedValue(undefined);
 
-        await actionFn('plain', {});
+        await actionFn({});
 
         expect(runSpy).toHaveBeenCalled();
     });
@@ -603,18 +677,18 @@ describe('CLI', () => {
             async run() { }
         }
         mockGetCommands.mockReturnValue([
-            { command: 'sys opt', class: SubOptCommand, instance: new SubOptCommand(cli) }
+            { command: 'sys opt', class: SubOptCommand }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         await cli.start();
 
-        const actionFn = mockCommand.action.mock.calls[0][0];
+        const actionFn = mockCommand.action.mock.calls[1][0];
         const runSpy = vi.spyOn(SubOptCommand.prototype, 'run');
         vi.spyOn(SubOptCommand.prototype, 'init').mockResolvedValue(undefined);
 
         // Provides 1 arg, expects 2 slots
-        await actionFn('opt', ['val1'], {});
+        await actionFn('val1', undefined, {});
 
         expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({
             r1: 'val1'
@@ -635,8 +709,8 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) },
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'help', class: MockHelpCommand },
+            { command: 'test', class: MockCommand }
         ]);
 
         await cli.start();
@@ -664,18 +738,17 @@ describe('CLI', () => {
         class SubCmd extends BaseCommand { async run() { } }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) },
-            { command: 'mod sub', class: SubCmd, instance: new SubCmd(cli) }
+            { command: 'help', class: MockHelpCommand },
+            { command: 'mod sub', class: SubCmd }
         ]);
 
         await cli.start();
 
-        // Find action for 'mod <subcommand>'
-        // It should be the second registered command after help
-        const actionFn = mockCommand.action.mock.calls[1][0];
+        // Actions are registered as 'help' (0), 'mod' (1), 'mod sub' (2)
+        const actionFn = mockCommand.action.mock.calls[2][0];
 
-        // Call action with subcommand='sub' and help: true
-        await actionFn('sub', [], { help: true });
+        // Call 'mod sub' action with help: true
+        await actionFn({ help: true });
 
         expect(mockHelpRun).toHaveBeenCalledWith({ command: ['mod', 'sub'] });
     });
@@ -690,15 +763,15 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) },
-            { command: 'mod sub', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'help', class: MockHelpCommand },
+            { command: 'mod sub', class: MockCommand }
         ]);
 
         await cli.start();
         const actionFn = mockCommand.action.mock.calls[1][0];
 
-        // Call action with subcommand=undefined (simulating 'module --help')
-        await actionFn(undefined, [], { help: true });
+        // Call namespace action without subcommand (simulating 'module --help')
+        await actionFn([], { help: true });
 
         // Should call with just ['mod']
         // Should call with just ['mod']
@@ -718,30 +791,27 @@ describe('CLI', () => {
         };
 
         mockGetCommands.mockReturnValue([
-            { command: 'module sub', class: MockSubCommandClass, instance: new MockSubCommandClass() }
+            { command: 'module sub', class: MockSubCommandClass }
         ]);
         (fs.existsSync as any).mockReturnValue(true);
 
         const cli = new CLI();
         await cli.start();
 
-        // The action handler for 'module sub'
-        // 'module' is root, 'sub' is subcommand. 
-        // We find the action handler registered for 'module [subcommand] [...args]'
-        // It should be the first one since we only loaded one command group
-        const actionFn = mockCac.command.mock.results[0].value.action.mock.calls[0][0];
+        // The action handler registered for 'module sub [reqArg]'
+        // (the 'module' namespace is registered first)
+        const actionFn = mockCac.command.mock.results[1].value.action.mock.calls[1][0];
 
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
         const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
         const helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined as any);
 
-        // Call action validation failure: subcommand='sub', options={}
-        // Missing 'reqArg' which is the first arg after subcommand
-        await actionFn('sub', {});
+        // Call action validation failure: options={}
+        // Missing 'reqArg' which is the first arg after the command path
+        const exitCode = await actionFn({});
 
         expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Missing required argument: reqArg'));
         expect(helpSpy).toHaveBeenCalledWith(['module', 'sub']);
-        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(exitCode).toBe(ExitCode.Usage);
     });
 
     it('should show help when subcommand is missing (no help flag)', async () => {
@@ -754,15 +824,15 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) },
-            { command: 'sys info', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'help', class: MockHelpCommand },
+            { command: 'sys info', class: MockCommand }
         ]);
 
         await cli.start();
         const actionFn = mockCommand.action.mock.calls[1][0];
 
-        // Call action with subcommand=undefined and NO help flag
-        await actionFn(undefined, [], {});
+        // Call namespace action without subcommand and NO help flag
+        await actionFn([], {});
 
         expect(mockHelpRun).toHaveBeenCalledWith({ command: ['sys'] });
     });
@@ -777,22 +847,14 @@ describe('CLI', () => {
         }
 
         mockGetCommands.mockReturnValue([
-            { command: 'help', class: MockHelpCommand, instance: new MockHelpCommand(cli) }
+            { command: 'help', class: MockHelpCommand }
         ]);
 
-        const originalArgv = process.argv;
-        process.argv = ['node', 'app', '--help'];
-
-        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((code: any) => {
-            // throw to stop execution flow if needed, but the code calls it at the end
-        }) as any);
-
-        await cli.start();
+        const result = await cli.run(['--help']);
 
         expect(mockHelpRun).toHaveBeenCalledWith({ command: [] });
-        expect(exitSpy).toHaveBeenCalledWith(0);
-
-        process.argv = originalArgv;
+        expect(mockCac.parse).not.toHaveBeenCalled();
+        expect(result.exitCode).toBe(0);
     });
 
     it('should fallback to native help output if HelpCommand is missing', async () => {
@@ -801,7 +863,7 @@ describe('CLI', () => {
 
         // Load commands but NO help command
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
 
         await cli.start();
@@ -822,7 +884,7 @@ describe('CLI', () => {
         (fs.existsSync as any).mockReturnValue(true);
 
         mockGetCommands.mockReturnValue([
-            { command: 'test', class: MockCommand, instance: new MockCommand(cli) }
+            { command: 'test', class: MockCommand }
         ]);
 
         const mockHelpRun = vi.fn();
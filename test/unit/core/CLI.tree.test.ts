@@ -0,0 +1,410 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CLI, CLIConfig } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { ExitCode } from '../../../src/errors.js';
+import { logger } from '../../../src/utils/logger.js';
+
+vi.mock('../../../src/utils/logger.js', () => ({
+    logger: {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    },
+    setDebugMode: vi.fn(),
+    captureLogs: vi.fn(() => () => {})
+}));
+
+const runSpy = vi.fn();
+
+class BackupCommand extends BaseCommand {
+    static description = 'Backup a database';
+    static args = {
+        args: [{ name: 'name', required: true }, { name: 'tables...' }],
+        options: [{ name: '--compress', description: 'Compress output', default: false }]
+    };
+    async init() { }
+    async run(options: any) { runSpy('backup', options); }
+}
+
+class DeployCommand extends BaseCommand {
+    static description = 'Deploy';
+    static aliases = ['ship'];
+    async init() { }
+    async run(options: any) { runSpy('deploy', options); }
+}
+
+class UserCommand extends BaseCommand {
+    static description = 'Show the current user';
+    static args = {
+        options: [{ name: '--json', description: 'Output JSON', default: false }]
+    };
+    async init() { }
+    async run(options: any) { runSpy('user', options); }
+}
+
+class UserCreateCommand extends BaseCommand {
+    static description = 'Create a user';
+    static aliases = ['new', 'add'];
+    static args = { args: [{ name: 'name', required: true }] };
+    async init() { }
+    async run(options: any) { runSpy('user create', options); }
+}
+
+class ProjectCommand extends BaseCommand {
+    static description = 'Show a project';
+    static args = { args: [{ name: 'id' }] };
+    async init() { }
+    async run(options: any) { runSpy('project', options); }
+}
+
+class ProjectListCommand extends BaseCommand {
+    async init() { }
+    async run(options: any) { runSpy('project list', options); }
+}
+
+describe('CLI command tree routing', () => {
+    let cli: CLI;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        cli = createCli();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function createCli(config: CLIConfig = {}) {
+        const instance = new CLI({ commandName: 'app', searchDirectories: ['/commands'], ...config });
+        vi.spyOn((instance as any).loader, 'load').mockResolvedValue([]);
+        vi.spyOn((instance as any).loader, 'getCommands').mockReturnValue([
+            { command: 'cloud db backup', path: '/commands/cloud/db/backup.ts', class: BackupCommand },
+            { command: 'cloud deploy', path: '/commands/cloud/deploy.ts', class: DeployCommand },
+            { command: 'user', path: '/commands/user/index.ts', class: UserCommand },
+            { command: 'user create', path: '/commands/user/create.ts', class: UserCreateCommand },
+            { command: 'project', path: '/commands/project/index.ts', class: ProjectCommand },
+            { command: 'project list', path: '/commands/project/list.ts', class: ProjectListCommand }
+        ]);
+        return instance;
+    }
+
+    function invoke(...args: string[]) {
+        return cli.run(args);
+    }
+
+    it('should invoke a command three levels deep with positional args', async () => {
+        await invoke('cloud', 'db', 'backup', 'main', 'users', 'orders', '--compress');
+
+        expect(runSpy).toHaveBeenCalledWith('backup', expect.objectContaining({
+            name: 'main',
+            tables: ['users', 'orders'],
+            compress: true
+        }));
+    });
+
+    it('should route commands when global options come first', async () => {
+        await invoke('--root-dir', '/tmp/project', 'cloud', 'deploy');
+
+        expect(runSpy).toHaveBeenCalledWith('deploy', expect.objectContaining({ rootDir: '/tmp/project' }));
+    });
+
+    it('should report unknown subcommands at any depth', async () => {
+        const result = await invoke('cloud', 'db', 'drop');
+
+        expect(runSpy).not.toHaveBeenCalled();
+        expect(result.stderr).toContain("Unknown subcommand 'drop' for 'cloud db'");
+        expect(result.exitCode).toBe(ExitCode.Usage);
+    });
+
+    it('should show namespace help when a namespace is invoked without a subcommand', async () => {
+        const helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+
+        await invoke('cloud', 'db');
+
+        expect(helpSpy).toHaveBeenCalledWith(['cloud', 'db']);
+        expect(runSpy).not.toHaveBeenCalled();
+    });
+
+    describe('parent commands', () => {
+        it('should run the index command when no subcommand is given', async () => {
+            await invoke('user', '--json');
+
+            expect(runSpy).toHaveBeenCalledTimes(1);
+            expect(runSpy).toHaveBeenCalledWith('user', expect.objectContaining({ json: true }));
+        });
+
+        it('should still route to subcommands', async () => {
+            await invoke('user', 'create', 'alice');
+
+            expect(runSpy).toHaveBeenCalledTimes(1);
+            expect(runSpy).toHaveBeenCalledWith('user create', expect.objectContaining({ name: 'alice' }));
+        });
+
+        it('should report unknown subcommands when the parent takes no arguments', async () => {
+            const result = await invoke('user', 'delete');
+
+            expect(runSpy).not.toHaveBeenCalled();
+            expect(result.stderr).toContain("Unknown subcommand 'delete' for 'user'");
+            expect(result.exitCode).toBe(ExitCode.Usage);
+        });
+
+        it('should pass unmatched words to the parent positional args', async () => {
+            await invoke('project', 'p-42');
+
+            expect(runSpy).toHaveBeenCalledWith('project', expect.objectContaining({ id: 'p-42' }));
+        });
+
+        it('should show the parent command help for --help', async () => {
+            const helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+
+            await invoke('user', '--help');
+
+            expect(helpSpy).toHaveBeenCalledWith(['user']);
+            expect(runSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('aliases and prefixes', () => {
+        it('should route nested aliases to the canonical command', async () => {
+            await invoke('cloud', 'ship');
+            expect(runSpy).toHaveBeenCalledWith('deploy', expect.anything());
+        });
+
+        it('should route aliases of subcommands under parent commands', async () => {
+            await invoke('user', 'new', 'bob');
+            expect(runSpy).toHaveBeenCalledWith('user create', expect.objectContaining({ name: 'bob' }));
+        });
+
+        it('should not resolve prefixes unless enabled', async () => {
+            const result = await invoke('cloud', 'dep');
+            expect(runSpy).not.toHaveBeenCalled();
+            expect(result.stderr).toContain("Unknown subcommand 'dep' for 'cloud'");
+        });
+
+        it('should resolve unambiguous prefixes when enabled', async () => {
+            cli = createCli({ prefixMatching: true });
+            await invoke('clo', 'dep');
+            expect(runSpy).toHaveBeenCalledWith('deploy', expect.anything());
+        });
+
+        it('should list candidates for ambiguous prefixes', async () => {
+            cli = createCli({ prefixMatching: true });
+            const result = await invoke('cloud', 'd');
+
+            expect(runSpy).not.toHaveBeenCalled();
+            expect(result.stderr).toContain("Ambiguous command 'd'. Did you mean one of: cloud db, cloud deploy?");
+            expect(result.exitCode).toBe(ExitCode.Usage);
+        });
+    });
+
+    describe('suggestions', () => {
+        it('should suggest the closest subcommand', async () => {
+            const result = await invoke('cloud', 'db', 'bakup');
+
+            expect(result.stderr).toContain("Unknown subcommand 'bakup' for 'cloud db'");
+            expect(result.stderr).toContain('Did you mean `cloud db backup`?');
+        });
+
+        it('should report and suggest unknown top-level commands', async () => {
+            const result = await invoke('clod', 'deploy');
+
+            expect(result.stderr).toContain("Unknown command 'clod'");
+            expect(result.stderr).toContain('Did you mean `cloud deploy`?');
+            expect(result.exitCode).toBe(ExitCode.Usage);
+        });
+
+        it('should suggest subcommands of parent commands', async () => {
+            const result = await invoke('user', 'craete');
+
+            expect(result.stderr).toContain('Did you mean `user create`?');
+        });
+
+        it('should suggest declared options for unknown flags', async () => {
+            vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+
+            const result = await invoke('cloud', 'db', 'backup', 'main', '--compres');
+
+            expect(result.stderr).toContain('Unknown option `--compres`');
+            expect(result.stderr).toContain('Did you mean `--compress`?');
+            expect(runSpy).not.toHaveBeenCalled();
+        });
+
+        it('should show global help when no command is given', async () => {
+            const helpSpy = vi.spyOn(cli as any, 'runHelp').mockResolvedValue(undefined);
+
+            const result = await invoke();
+
+            expect(helpSpy).toHaveBeenCalledWith([]);
+            expect(result.exitCode).toBe(0);
+        });
+    });
+
+    describe('command conflicts', () => {
+        class CoreDeployCommand extends BaseCommand {
+            static description = 'Core deploy';
+            async run() { runSpy('core deploy'); }
+        }
+
+        function createConflictingCli(config: CLIConfig = {}) {
+            const instance = createCli(config);
+            const commands = (instance as any).loader.getCommands();
+            vi.spyOn((instance as any).loader, 'getCommands').mockReturnValue([
+                ...commands,
+                { command: 'cloud deploy', path: '/core/cloud/deploy.ts', class: CoreDeployCommand }
+            ]);
+            return instance;
+        }
+
+        it('should load the CLI directories, then plugins, then the core commands', async () => {
+            const instance = createCli({ searchDirectories: ['/commands', '/more', '/commands'], plugins: [{ name: 'tools', commandsDir: '/plugin' }] });
+            const load = (instance as any).loader.load;
+
+            await instance.run(['user']);
+
+            expect(load.mock.calls.map(([dir]: string[]) => dir).slice(0, 3)).toEqual(['/commands', '/more', '/plugin']);
+            expect(load.mock.calls[2][1]).toEqual({ prefix: undefined, plugin: 'tools' });
+        });
+
+        it('should let the commands of the cwd override core commands by default', async () => {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'override-'));
+            try {
+                fs.mkdirSync(path.join(root, 'commands'));
+                fs.writeFileSync(path.join(root, 'commands', 'help.js'), [
+                    'export default class {',
+                    '    constructor(cli) { this.cli = cli; }',
+                    '    async init() {}',
+                    "    async runInit() { this.cli.getContext().output.log('custom help'); }",
+                    "    async run() { this.cli.getContext().output.log('custom help'); }",
+                    '}',
+                    ''
+                ].join('\n'));
+                const instance = new CLI({ commandName: 'app' });
+
+                const result = await instance.run(['help'], { cwd: root, env: { HOME: root } });
+
+                expect(result.stdout).toBe('custom help\n');
+                expect(instance.getCommandConflicts()).toMatchObject([
+                    { command: 'help', used: { path: path.join(root, 'commands', 'help.js') } }
+                ]);
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+
+        it('should load the commands of the working directory of each run', async () => {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cwd-commands-'));
+            try {
+                const command = (name: string) => [
+                    'export default class {',
+                    '    constructor(cli) { this.cli = cli; }',
+                    '    async init() {}',
+                    `    async runInit() { this.cli.getContext().output.log('${name}'); }`,
+                    '}',
+                    ''
+                ].join('\n');
+                for (const name of ['first', 'second']) {
+                    fs.mkdirSync(path.join(root, name, 'commands'), { recursive: true });
+                    fs.writeFileSync(path.join(root, name, 'commands', 'where.js'), command(name));
+                }
+                const instance = new CLI({ commandName: 'app' });
+                const run = (dir: string) => instance.run(['where'], { cwd: path.join(root, dir), env: { HOME: root } });
+
+                expect((await run('first')).stdout).toBe('first\n');
+                expect((await run('second')).stdout).toBe('second\n');
+                expect(instance.getCommandConflicts()).toEqual([]);
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+
+        it('should start over when a strict load failed', async () => {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'strict-retry-'));
+            try {
+                fs.mkdirSync(path.join(root, 'commands'));
+                fs.writeFileSync(path.join(root, 'commands', 'ok.js'), [
+                    'export default class {',
+                    '    constructor(cli) { this.cli = cli; }',
+                    '    async init() {}',
+                    "    async runInit() { this.cli.getContext().output.log('ok'); }",
+                    '}',
+                    ''
+                ].join('\n'));
+                fs.writeFileSync(path.join(root, 'commands', 'broken.js'), 'export default 42;\n');
+                const instance = new CLI({ commandName: 'app', strict: true, searchDirectories: [path.join(root, 'commands')] });
+                const run = () => instance.run(['ok'], { cwd: root, env: { HOME: root } });
+
+                expect((await run()).exitCode).toBe(ExitCode.Error);
+
+                fs.rmSync(path.join(root, 'commands', 'broken.js'));
+                const retry = await run();
+                expect(retry.exitCode).toBe(0);
+                expect(retry.stdout).toBe('ok\n');
+                expect(instance.getLoadDiagnostics()).toEqual([]);
+                expect(instance.getCommandConflicts()).toEqual([]);
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+
+        it('should use the first definition and report the shadowed ones at debug level', async () => {
+            cli = createConflictingCli();
+
+            await invoke('cloud', 'deploy');
+
+            expect(runSpy).toHaveBeenCalledWith('deploy', expect.anything());
+            expect(cli.getCommands().filter(cmd => cmd.command === 'cloud deploy')).toHaveLength(1);
+            expect(cli.getCommandConflicts()).toMatchObject([{ command: 'cloud deploy', shadowed: [{ path: '/core/cloud/deploy.ts' }] }]);
+            expect(logger.debug).toHaveBeenCalledWith("Command 'cloud deploy' from /commands/cloud/deploy.ts shadows /core/cloud/deploy.ts");
+        });
+
+        it('should fail in strict mode', async () => {
+            cli = createConflictingCli({ strict: true });
+
+            const result = await invoke('cloud', 'deploy');
+
+            expect(result.exitCode).toBe(ExitCode.Error);
+            expect(result.stderr).toContain('Conflicting command definitions:\n  cloud deploy: /commands/cloud/deploy.ts, /core/cloud/deploy.ts');
+            expect(result.stderr).toContain('disable `strict`');
+            expect(runSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('load diagnostics', () => {
+        const diagnostics = [
+            { path: '/commands/broken.ts', message: 'Failed to import: Unexpected token' },
+            { path: '/commands/plain.ts', message: 'The default export is not a class extending BaseCommand.' }
+        ];
+
+        it('should report the command files that could not be loaded once', async () => {
+            vi.spyOn((cli as any).loader, 'getDiagnostics').mockReturnValue(diagnostics);
+
+            const first = await invoke('user');
+            const second = await invoke('user');
+
+            expect(runSpy).toHaveBeenCalledTimes(2);
+            expect(first.stderr).toContain([
+                '⚠ Could not load 2 command files:',
+                '  /commands/broken.ts: Failed to import: Unexpected token',
+                '  /commands/plain.ts: The default export is not a class extending BaseCommand.'
+            ].join('\n'));
+            expect(second.stderr).toBe('');
+            expect(cli.getLoadDiagnostics()).toBe(diagnostics);
+        });
+
+        it('should fail startup in strict mode', async () => {
+            cli = createCli({ strict: true });
+            vi.spyOn((cli as any).loader, 'getDiagnostics').mockReturnValue(diagnostics.slice(0, 1));
+
+            const result = await invoke('user');
+
+            expect(result.exitCode).toBe(ExitCode.Error);
+            expect(result.stderr).toContain('Could not load a command file:\n  /commands/broken.ts: Failed to import: Unexpected token');
+            expect(result.stderr).toContain('disable `strict` to skip them');
+            expect(runSpy).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CLI } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { ExitCode } from '../../../src/errors.js';
+
+describe('CLI --all-projects', () => {
+    let root: string;
+    const env = { HOME: '/nonexistent' };
+
+    class WhereCommand extends BaseCommand {
+        static args = { options: [{ name: '--fail-in <name>' }] };
+        async run(options: any) {
+            if (options.failIn && this.projectRoot?.endsWith(options.failIn)) {
+                this.error(`Cannot deploy ${options.failIn}`, 3);
+            }
+            this.info(`region=${this.config.region}`);
+        }
+    }
+
+    function write(file: string, content: string) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+
+    function createCli() {
+        const cli = new CLI({ commandName: 'app', searchDirectories: ['/commands'] });
+        vi.spyOn((cli as any).loader, 'load').mockResolvedValue([]);
+        vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+            { command: 'where', path: '/commands/where.ts', class: WhereCommand }
+        ]);
+        return cli;
+    }
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-workspace-'));
+        write('app.yml', "workspaces: ['packages/*', 'apps/*']\n");
+        write('packages/api/app.yml', 'name: api-service\nregion: eu\n');
+        write('packages/web/app.yml', 'region: us\n');
+        write('apps/admin/app.yml', '{}\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should run the command in every project with prefixed output and a summary', async () => {
+        const result = await createCli().run(['where', '--all-projects'], { cwd: root, env });
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('[api-service] region=eu');
+        expect(result.stdout).toContain('[web        ] region=us');
+        expect(result.stdout).toContain('[admin      ] region=undefined');
+        expect(result.stdout).toMatch(/✔ admin\n.*✔ api-service\n.*✔ web\n.*3 passed, 0 failed\n$/s);
+    });
+
+    it('should fail when any project fails, running the others', async () => {
+        const result = await createCli().run(['where', '--all-projects', '--concurrency', '2', '--fail-in', 'web'], { cwd: root, env });
+
+        expect(result.exitCode).toBe(ExitCode.Error);
+        expect(result.stderr).toContain('[web        ] ✖ Cannot deploy web');
+        expect(result.stdout).toContain('[api-service] region=eu');
+        expect(result.stdout).toContain('✖ web (exit code 3)');
+        expect(result.stdout).toContain('2 passed, 1 failed');
+    });
+
+    it('should only run in the projects matching --filter', async () => {
+        const result = await createCli().run(['where', '--all-projects', '--filter', 'packages/*'], { cwd: path.join(root, 'packages/web'), env });
+
+        expect(result.stdout).not.toContain('admin');
+        expect(result.stdout).toContain('2 passed, 0 failed');
+
+        const none = await createCli().run(['where', '--all-projects', '--filter', 'nothing*'], { cwd: root, env });
+        expect(none.exitCode).toBe(ExitCode.Usage);
+        expect(none.stderr).toContain("No project matches 'nothing*'.");
+    });
+
+    it('should reject invalid concurrency values', async () => {
+        const result = await createCli().run(['where', '--all-projects', '--concurrency', '0'], { cwd: root, env });
+
+        expect(result.exitCode).toBe(ExitCode.Usage);
+        expect(result.stderr).toContain('Invalid value for --concurrency');
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { CLI } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { CommandLoader } from '../../../src/CommandLoader.js';
+
+vi.mock('picocolors', () => {
+    const identity = (s: string) => s;
+    return { default: { bold: identity, cyan: identity, yellow: identity, dim: identity, red: identity, green: identity, blue: identity } };
+});
+
+describe('CommandLoader manifest', () => {
+    let root: string;
+    let commandsDir: string;
+    let env: NodeJS.ProcessEnv;
+
+    class DeployCommand extends BaseCommand {
+        static description = 'Deploy the app';
+        static aliases = ['ship'];
+        static deprecated = { since: '2.0.0', replacement: 'release' };
+        static args = {
+            args: [{ name: 'target', required: true }],
+            options: [{ name: '--region <name>', description: 'Region', schema: z.enum(['eu', 'us']) }]
+        };
+        async run() { }
+    }
+
+    class AddCommand extends BaseCommand {
+        async run() { }
+    }
+
+    function write(file: string, content = '') {
+        fs.mkdirSync(path.dirname(path.join(commandsDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(commandsDir, file), content);
+    }
+
+    function createLoader(importer: (p: string) => Promise<any>) {
+        return new CommandLoader({ getCacheDir: () => path.join(root, 'cache') }, importer);
+    }
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+        commandsDir = path.join(root, 'commands');
+        env = { HOME: root };
+        write('deploy.ts');
+        write('module/add.ts');
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should only import commands once their files change', async () => {
+        const importer = vi.fn(async (file: string) => ({ default: file.endsWith('deploy.ts') ? DeployCommand : AddCommand }));
+
+        await createLoader(importer).load(commandsDir);
+        expect(importer).toHaveBeenCalledTimes(2);
+        expect(fs.readdirSync(path.join(root, 'cache'))).toHaveLength(1);
+
+        importer.mockClear();
+        const commands = await createLoader(importer).load(commandsDir, { prefix: ['cloud'], plugin: 'cloud' });
+        expect(importer).not.toHaveBeenCalled();
+        expect(commands.map(cmd => cmd.command).sort()).toEqual(['cloud deploy', 'cloud module add']);
+
+        const deploy = commands.find(cmd => cmd.command === 'cloud deploy')!;
+        expect(deploy.plugin).toBe('cloud');
+        expect(deploy.class).toEqual({
+            description: 'Deploy the app',
+            usage: '',
+            aliases: ['ship'],
+            args: { args: [{ name: 'target', required: true }], options: [{ name: '--region <name>', description: 'Region' }] },
+            hidden: false,
+            deprecated: { since: '2.0.0', replacement: 'release' },
+            experimental: false
+        });
+
+        expect(await deploy.load!()).toBe(DeployCommand);
+        expect(deploy.class).toBe(DeployCommand);
+        expect(deploy.load).toBeUndefined();
+
+        // A new file (changing the directory) and an edited one invalidate the manifest
+        write('module/remove.ts');
+        importer.mockClear();
+        expect((await createLoader(importer).load(commandsDir)).map(cmd => cmd.command)).toContain('module remove');
+        expect(importer).toHaveBeenCalledTimes(3);
+
+        const future = new Date(Date.now() + 60_000);
+        fs.utimesSync(path.join(commandsDir, 'deploy.ts'), future, future);
+        importer.mockClear();
+        await createLoader(importer).load(commandsDir);
+        expect(importer).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache directories with commands that failed to import', async () => {
+        const importer = vi.fn(async (file: string) => {
+            if (file.endsWith('add.ts')) throw new Error('Syntax error');
+            return { default: DeployCommand };
+        });
+
+        await createLoader(importer).load(commandsDir);
+        importer.mockClear();
+        await createLoader(importer).load(commandsDir);
+
+        expect(importer).toHaveBeenCalledTimes(2);
+    });
+
+    it('should import only the invoked command', async () => {
+        write('deploy.ts', [
+            'export default class {',
+            "    static description = 'Deploy the app';",
+            "    static args = { args: [{ name: 'target', required: true }] };",
+            '    constructor(cli) { this.cli = cli; }',
+            '    async init() {}',
+            "    async runInit(options) { this.cli.getContext().output.log('deploying ' + options.target); }",
+            '}',
+            ''
+        ].join('\n'));
+        write('module/add.ts', "export default class { static description = 'Add a module'; async runInit() {} }\n");
+        const createCli = () => {
+            const cli = new CLI({ commandName: 'app', searchDirectories: [commandsDir] });
+            const importer = vi.fn((file: string) => import(file));
+            (cli as any).loader.importer = importer;
+            return { cli, importer };
+        };
+
+        const first = createCli();
+        expect((await first.cli.run(['deploy', 'prod'], { cwd: root, env })).stdout).toBe('deploying prod\n');
+        expect(first.importer).toHaveBeenCalledWith(path.join(commandsDir, 'module/add.ts'));
+
+        const second = createCli();
+        expect((await second.cli.run(['deploy', 'prod'], { cwd: root, env })).stdout).toBe('deploying prod\n');
+        expect(second.importer.mock.calls.map(([file]) => file)).toEqual([path.join(commandsDir, 'deploy.ts')]);
+
+        const help = createCli();
+        expect((await help.cli.run(['help'], { cwd: root, env })).stdout).toContain('Add a module');
+        expect(help.importer.mock.calls.map(([file]) => path.basename(file))).toEqual(['help.ts']);
+    });
+
+    it('should not cache manifests when disabled', async () => {
+        const cli = new CLI({ commandName: 'app', commandCache: false });
+        vi.spyOn(cli, 'getContext').mockReturnValue({ env } as any);
+        expect(cli.getCacheDir()).toBeUndefined();
+
+        const enabled = new CLI({ commandName: 'app' });
+        vi.spyOn(enabled, 'getContext').mockReturnValue({ env: { HOME: '/home/me' } } as any);
+        expect(enabled.getCacheDir()).toBe(path.join('/home/me', '.cache', 'app'));
+        vi.spyOn(enabled, 'getContext').mockReturnValue({ env: { HOME: '/home/me', XDG_CACHE_HOME: '/cache' } } as any);
+        expect(enabled.getCacheDir()).toBe(path.join('/cache', 'app'));
+    });
+});
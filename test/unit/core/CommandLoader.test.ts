@@ -4,7 +4,6 @@ import { CommandLoader } from '../../../src/CommandLoader.js';
 import { BaseCommand } from '../../../src/BaseCommand.js';
 import fs from 'node:fs';
 import path from 'node:path';
-import { logger } from '../../../src/utils/logger.js';
 
 vi.mock('node:fs');
 vi.mock('../../../src/utils/logger.js', () => ({
@@ -43,6 +42,26 @@ describe('CommandLoader', () => {
         expect(commands).toHaveLength(0);
     });
 
+    it('should register command classes without constructing them', async () => {
+        const constructed = vi.fn();
+        class TrackedCommand extends BaseCommand {
+            constructor(cli: any) {
+                super(cli);
+                constructed();
+            }
+            async run() { }
+        }
+        (fs.existsSync as any).mockReturnValue(true);
+        (fs.readdirSync as any).mockReturnValue(['deploy.ts']);
+        (fs.statSync as any).mockReturnValue({ isDirectory: () => false });
+        mockImporter.mockResolvedValue({ default: TrackedCommand });
+
+        const commands = await loader.load('/commands');
+
+        expect(commands).toEqual([{ command: 'deploy', path: path.join('/commands', 'deploy.ts'), class: TrackedCommand }]);
+        expect(constructed).not.toHaveBeenCalled();
+    });
+
     it('should skip directory if does not exist', async () => {
         (fs.existsSync as any).mockReturnValue(false);
         const commands = await loader.load('/non-existent');
@@ -60,7 +79,9 @@ describe('CommandLoader', () => {
         const commands = await loader.load(rootDir);
 
         expect(commands).toHaveLength(0);
-        expect(logger.error).toHaveBeenCalled();
+        expect(loader.getDiagnostics()).toEqual([
+            { path: path.join(rootDir, 'error.ts'), message: 'Failed to import: Load failed', error: expect.any(Error) }
+        ]);
     });
 
     it('should skip files that do not default export a class', async () => {
@@ -121,7 +142,7 @@ describe('CommandLoader', () => {
 
         // If we reach here, we survived the import error, meaning the catch block was hit
         // and impliedly the try block (and importer) was executed.
-        expect(logger.error).toHaveBeenCalled();
+        expect(loader.getDiagnostics()[0].message).toMatch(/^Failed to import: /);
     });
 
     it('should load .js files', async () => {
@@ -211,4 +232,92 @@ describe('CommandLoader', () => {
         expect(cmds).toHaveLength(1);
         expect(cmds[0].command).toBe('test');
     });
+
+    describe('diagnostics', () => {
+        async function loadClass(CommandClass: any) {
+            (fs.existsSync as any).mockReturnValue(true);
+            (fs.readdirSync as any).mockReturnValue(['deploy.ts']);
+            (fs.statSync as any).mockReturnValue({ isDirectory: () => false });
+            mockImporter.mockResolvedValue({ default: CommandClass });
+
+            const commands = await loader.load('/commands');
+            return { commands, messages: loader.getDiagnostics().map(diagnostic => diagnostic.message) };
+        }
+
+        it('should reject exports that do not extend BaseCommand', async () => {
+            const { commands, messages } = await loadClass(class { async run() { } });
+
+            expect(commands).toHaveLength(0);
+            expect(messages).toEqual(['The default export is not a class extending BaseCommand.']);
+            expect(loader.getDiagnostics()[0].path).toBe(path.join('/commands', 'deploy.ts'));
+        });
+
+        it('should report files without a default export', async () => {
+            expect((await loadClass(undefined)).messages).toEqual(['The default export is not a class extending BaseCommand.']);
+        });
+
+        it('should reject malformed arguments and options', async () => {
+            class BrokenCommand extends BaseCommand {
+                static args = {
+                    args: [{ name: 'files...' }, { name: 'target', required: true }, { name: '' }],
+                    options: [{ name: '--force, -f' }, { name: '--fast, -f' }, { name: 'verbose' }, { name: '--force' }]
+                };
+                async run() { }
+            }
+
+            const { commands, messages } = await loadClass(BrokenCommand);
+
+            expect(commands).toHaveLength(0);
+            expect(messages).toEqual([
+                "Variadic argument 'files...' must be the last argument.",
+                "Required argument 'target' cannot follow optional argument 'files...'.",
+                'Argument 3 has no name.',
+                "Option '--fast, -f' declares -f again (already declared by '--force, -f').",
+                'Option "verbose" must be a flag such as \'--name\'.',
+                "Option '--force' declares --force again (already declared by '--force, -f')."
+            ]);
+        });
+
+        it('should reject options that collide with the global options', async () => {
+            class CollidingCommand extends BaseCommand {
+                static args = {
+                    options: [{ name: '--project <id>' }, { name: '--debug' }, { name: '--host, -h <host>' }, { name: '--verbose, -v' }]
+                };
+                async run() { }
+            }
+
+            const { commands, messages } = await loadClass(CollidingCommand);
+
+            expect(commands).toHaveLength(0);
+            expect(messages).toEqual([
+                "Option '--project <id>' declares --project, which is a global option.",
+                "Option '--debug' declares --debug, which is a global option.",
+                "Option '--host, -h <host>' declares -h, which is a global option."
+            ]);
+        });
+
+        it('should reject args that are not lists', async () => {
+            class BrokenCommand extends BaseCommand {
+                static args: any = { options: { name: '--force' } };
+                async run() { }
+            }
+
+            expect((await loadClass(BrokenCommand)).messages).toEqual(['`static args` must be an object with `args` and `options` lists.']);
+        });
+
+        it('should accept well formed definitions', async () => {
+            class ValidCommand extends BaseCommand {
+                static args = {
+                    args: [{ name: 'target', required: true }, { name: 'files...' }],
+                    options: [{ name: '--color' }, { name: '--no-color' }, { name: '--output, -o <file>' }]
+                };
+                async run() { }
+            }
+
+            const { commands, messages } = await loadClass(ValidCommand);
+
+            expect(commands).toHaveLength(1);
+            expect(messages).toEqual([]);
+        });
+    });
 });
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { CommandTree, describeCommandSource, findCommandConflicts } from '../../../src/CommandTree.js';
+
+const command = (name: string): any => ({ command: name, path: `/commands/${name.replace(/ /g, '/')}.ts`, class: {} });
+
+describe('CommandTree', () => {
+    const tree = new CommandTree([
+        command('init'),
+        command('module add'),
+        command('module remove'),
+        command('cloud db backup'),
+        command('cloud db restore'),
+        command('cloud deploy')
+    ]);
+
+    it('should build nodes for every path segment', () => {
+        expect([...tree.getRoot().children.keys()]).toEqual(['init', 'module', 'cloud']);
+        expect(tree.find(['cloud', 'db'])?.command).toBeUndefined();
+        expect(tree.find(['cloud', 'db', 'backup'])?.command?.command).toBe('cloud db backup');
+        expect(tree.find(['cloud', 'missing'])).toBeUndefined();
+    });
+
+    it('should list all nodes depth first', () => {
+        expect(tree.nodes().map(n => n.path.join(' '))).toEqual([
+            'init', 'module', 'module add', 'module remove',
+            'cloud', 'cloud db', 'cloud db backup', 'cloud db restore', 'cloud deploy'
+        ]);
+    });
+
+    it('should resolve the longest matching path', () => {
+        const resolved = tree.resolve(['cloud', 'db', 'backup', 'nightly']);
+        expect(resolved.node.path).toEqual(['cloud', 'db', 'backup']);
+        expect(resolved.indexes).toEqual([0, 1, 2]);
+    });
+
+    it('should stop at a namespace when the next token is unknown', () => {
+        const resolved = tree.resolve(['cloud', 'db', 'bakup']);
+        expect(resolved.node.path).toEqual(['cloud', 'db']);
+    });
+
+    it('should skip options and the values of known value options', () => {
+        const resolved = tree.resolve(['--debug', '--root-dir', 'cloud', 'module', 'add', '--', 'x'], { valueOptions: ['--root-dir'] });
+        expect(resolved.node.path).toEqual(['module', 'add']);
+        expect(resolved.indexes).toEqual([3, 4]);
+    });
+
+    it('should not match tokens after --', () => {
+        expect(tree.resolve(['--', 'init']).node.path).toEqual([]);
+    });
+
+    it('should keep the first command registered for a path', () => {
+        const dup = new CommandTree([command('init'), { ...command('init'), path: '/other/init.ts' }]);
+        expect(dup.find(['init'])?.command?.path).toBe('/commands/init.ts');
+    });
+
+    it('should report commands defined more than once', () => {
+        const init = command('init');
+        const other = { ...command('init'), path: '/other/init.ts', plugin: 'tools' };
+        const third = { ...command('init'), path: '/core/init.ts' };
+
+        expect(findCommandConflicts([init, command('module add'), other, third])).toEqual([
+            { command: 'init', used: init, shadowed: [other, third] }
+        ]);
+        expect(findCommandConflicts([init, command('module add')])).toEqual([]);
+        expect(describeCommandSource(other)).toBe('/other/init.ts (plugin: tools)');
+    });
+
+    describe('aliases and prefixes', () => {
+        const aliased = (name: string, aliases: string[]): any => ({ ...command(name), class: { aliases } });
+        const withAliases = new CommandTree([
+            aliased('list', ['ls']),
+            command('module add'),
+            aliased('module remove', ['rm']),
+            command('modify')
+        ]);
+
+        it('should resolve aliases of top-level and nested commands', () => {
+            expect(withAliases.resolve(['ls']).node.path).toEqual(['list']);
+            expect(withAliases.resolve(['module', 'rm', 'x']).node.path).toEqual(['module', 'remove']);
+        });
+
+        it('should prefer exact names over aliases', () => {
+            const tree = new CommandTree([aliased('build', ['test']), command('test')]);
+            expect(tree.resolve(['test']).node.command?.command).toBe('test');
+        });
+
+        it('should only match prefixes when enabled', () => {
+            expect(withAliases.resolve(['module', 'ad']).node.path).toEqual(['module']);
+            expect(withAliases.resolve(['module', 'ad'], { prefixMatching: true }).node.path).toEqual(['module', 'add']);
+        });
+
+        it('should report ambiguous prefixes with their candidates', () => {
+            const resolved = withAliases.resolve(['mod', 'add'], { prefixMatching: true });
+            expect(resolved.node.path).toEqual([]);
+            expect(resolved.ambiguous).toEqual({ token: 'mod', candidates: ['module', 'modify'] });
+        });
+    });
+});
@@ -3,8 +3,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CLI } from '../../../src/CLI.js';
 import { BaseCommand } from '../../../src/BaseCommand.js';
 import * as ConfigUtils from '../../../src/utils/config.js';
-import pc from 'picocolors';
 import process from 'node:process';
+import { z } from 'zod';
 
 vi.mock('../../../src/utils/config.js');
 
@@ -19,6 +19,7 @@ describe('Config Loading & Error Messaging', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
+        (ConfigUtils.loadLayeredConfig as any).mockResolvedValue({ config: {}, origins: {}, layers: [] });
         processExitSpy = vi.spyOn(process, 'exit').mockImplementation((() => { }) as any);
         consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
     });
@@ -35,16 +36,41 @@ describe('Config Loading & Error Messaging', () => {
         // Mock finding root so we don't error out immediately on missing root check logic if we want to proceed,
         // but wait, we want to verify findProjectRoot call.
         (ConfigUtils.findProjectRoot as any).mockResolvedValue('/some/path');
-        (ConfigUtils.loadConfig as any).mockResolvedValue({});
 
         await command.init();
         // project root finding happens in init, verification happens in runInit
         // but this test marks requiresProject=true, so if we don't call runInit, we only verify init logic.
         // The original test verified init logic calling loadConfig.
 
-        expect(ConfigUtils.findProjectRoot).toHaveBeenCalledWith('astrical', expect.any(String));
-        // loadConfig is called in init if root is found
-        expect(ConfigUtils.loadConfig).toHaveBeenCalledWith('astrical', '/some/path');
+        expect(ConfigUtils.findProjectRoot).toHaveBeenCalledWith('astrical', expect.any(String), undefined);
+        // The config layers are loaded from the root found
+        expect(ConfigUtils.loadLayeredConfig).toHaveBeenCalledWith('astrical', '/some/path', expect.anything());
+    });
+
+    it('should validate the config with the configured schema', async () => {
+        const configSchema = z.object({ region: z.string() });
+        const cli = new CLI({ commandName: 'astrical', configSchema });
+        const command = new TestProjectRequiredCommand(cli);
+
+        (ConfigUtils.findProjectRoot as any).mockResolvedValue('/some/path');
+
+        await command.init();
+
+        expect(ConfigUtils.validateLayeredConfig).toHaveBeenCalledWith(configSchema, expect.objectContaining({ root: '/some/path' }));
+    });
+
+    it('should search and load the configured formats', async () => {
+        const cli = new CLI({ commandName: 'astrical', configFormats: ['json', 'package.json'] });
+        const command = new TestProjectRequiredCommand(cli);
+
+        (ConfigUtils.findProjectRoot as any).mockResolvedValue('/some/path');
+
+        await command.init();
+
+        expect(ConfigUtils.findProjectRoot).toHaveBeenCalledWith('astrical', expect.any(String), ['json', 'package.json']);
+        expect(ConfigUtils.loadLayeredConfig).toHaveBeenCalledWith('astrical', '/some/path', expect.objectContaining({
+            formats: ['json', 'package.json']
+        }));
     });
 
     it('should show correct error message when project root is missing for named command', async () => {
@@ -54,12 +80,10 @@ describe('Config Loading & Error Messaging', () => {
         (ConfigUtils.findProjectRoot as any).mockResolvedValue(null);
 
         await command.init();
-        await command.runInit({});
 
-        expect(consoleLogSpy).toHaveBeenCalledWith(
-            expect.stringContaining(pc.red('✖ This command requires to be run within an app project (astrical.yml not found).'))
+        await expect(command.runInit({})).rejects.toThrow(
+            'This command requires to be run within an app project (astrical.yml not found).'
         );
-        expect(process.exit).toHaveBeenCalledWith(1);
     });
 
     it('should show default error message when using default name', async () => {
@@ -69,10 +93,9 @@ describe('Config Loading & Error Messaging', () => {
         (ConfigUtils.findProjectRoot as any).mockResolvedValue(null);
 
         await command.init();
-        await command.runInit({});
 
-        expect(consoleLogSpy).toHaveBeenCalledWith(
-            expect.stringContaining(pc.red('✖ This command requires to be run within an app project (app.yml not found).'))
+        await expect(command.runInit({})).rejects.toThrow(
+            'This command requires to be run within an app project (app.yml not found).'
         );
     });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { CLI } from '../../../src/CLI.js';
+import { PluginLoader } from '../../../src/PluginLoader.js';
+
+vi.mock('picocolors', () => {
+    const identity = (s: string) => s;
+    return { default: { bold: identity, cyan: identity, yellow: identity, dim: identity, red: identity, green: identity, blue: identity } };
+});
+
+describe('PluginLoader', () => {
+    let root: string;
+    const env = { HOME: '/nonexistent' };
+
+    function write(file: string, content: string) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+
+    // Command files of the fixtures do not import BaseCommand, which lives outside their node_modules
+    function writeCommand(file: string, message: string) {
+        write(file, [
+            'export default class {',
+            `    static description = ${JSON.stringify(message)};`,
+            '    constructor(cli) { this.cli = cli; }',
+            '    async init() {}',
+            `    async runInit() { this.cli.getContext().output.log(${JSON.stringify(message)}); }`,
+            '}',
+            ''
+        ].join('\n'));
+    }
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+        write('app.yml', 'plugins: [extra-tools]\n');
+
+        write('node_modules/app-plugin-hello/package.json', JSON.stringify({ name: 'app-plugin-hello', exports: { '.': { import: './lib/index.js' } } }));
+        write('node_modules/app-plugin-hello/lib/index.js', "export default { namespace: 'hello', commandsDir: 'commands' };\n");
+        writeCommand('node_modules/app-plugin-hello/commands/world.js', 'Hello from a plugin');
+
+        write('node_modules/extra-tools/package.json', JSON.stringify({ name: 'extra-tools', main: 'main.js' }));
+        write('node_modules/extra-tools/main.js', "export default { name: 'extra', commandsDir: 'commands' };\n");
+        writeCommand('node_modules/extra-tools/commands/lint.js', 'Linting');
+
+        write('node_modules/@acme/app-plugin-audit/package.json', JSON.stringify({ name: '@acme/app-plugin-audit' }));
+        write('node_modules/@acme/app-plugin-audit/index.js', 'export default {};\n');
+        write('node_modules/other-plugin-x/package.json', '{}');
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should discover packages following the naming convention', () => {
+        expect(new PluginLoader('app').discover(root)).toEqual(['@acme/app-plugin-audit', 'app-plugin-hello']);
+        expect(new PluginLoader('app').discover(path.join(root, 'missing'))).toEqual([]);
+    });
+
+    it('should import the package entry and resolve its commands directory', async () => {
+        const loader = new PluginLoader('app');
+
+        expect(await loader.load('app-plugin-hello', [path.join(root, 'src')])).toEqual({
+            name: 'app-plugin-hello',
+            namespace: 'hello',
+            commandsDir: path.join(root, 'node_modules/app-plugin-hello/commands')
+        });
+        expect((await loader.load('extra-tools', [root])).name).toBe('extra');
+        await expect(loader.load('app-plugin-missing', [root])).rejects.toThrow("Plugin package 'app-plugin-missing' is not installed.");
+    });
+
+    it('should run plugin commands and show their plugin in help', async () => {
+        const cli = new CLI({ commandName: 'app', searchDirectories: ['/commands'] });
+
+        const hello = await cli.run(['hello', 'world'], { cwd: root, env });
+        expect(hello.exitCode).toBe(0);
+        expect(hello.stdout).toBe('Hello from a plugin\n');
+
+        // Listed in the project config and merged with the CLI's own commands
+        expect((await cli.run(['lint'], { cwd: root, env })).stdout).toBe('Linting\n');
+
+        const help = await cli.run(['help'], { cwd: root, env });
+        expect(help.stdout).toContain('hello world');
+        expect(help.stdout).toContain('Hello from a plugin (plugin: app-plugin-hello)');
+        expect(help.stdout).toContain('Linting (plugin: extra)');
+        expect(cli.getPlugins().map(plugin => plugin.name)).toEqual(['extra', '@acme/app-plugin-audit', 'app-plugin-hello']);
+
+        expect((await cli.run(['help', 'lint'], { cwd: root, env })).stdout).toContain('Plugin: extra');
+    });
+
+    it('should add the config keys of plugins to the schema', () => {
+        const cli = new CLI({
+            commandName: 'app',
+            configSchema: z.object({ name: z.string() }),
+            plugins: [{ name: 'deploy', configSchema: { deploy: z.object({ region: z.enum(['eu']) }) } }]
+        });
+        const schema = cli.getConfigSchema()!;
+
+        expect(schema.safeParse({ name: 'site', deploy: { region: 'eu' } }).success).toBe(true);
+        expect(schema.safeParse({ name: 'site', deploy: { region: 'us' } }).success).toBe(false);
+        expect(schema.safeParse({ deploy: { region: 'eu' } }).success).toBe(false);
+
+        const withoutBase = new CLI({ plugins: [{ name: 'deploy', configSchema: { deploy: z.object({ region: z.string() }) } }] });
+        expect(withoutBase.getConfigSchema()!.parse({ deploy: { region: 'us' }, other: 1 })).toEqual({ deploy: { region: 'us' }, other: 1 });
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+    CLIError,
+    ConfigError,
+    ExitCode,
+    ExternalToolError,
+    NotInProjectError,
+    UsageError,
+    UserCancelledError
+} from '../../../src/errors.js';
+
+describe('errors', () => {
+    it('should default CLIError to exit code 1 without help', () => {
+        const error = new CLIError('boom');
+        expect(error.exitCode).toBe(ExitCode.Error);
+        expect(error.showHelp).toBe(false);
+        expect(error.hint).toBeUndefined();
+    });
+
+    it('should map each error class to its exit code', () => {
+        expect(new UsageError('bad').exitCode).toBe(ExitCode.Usage);
+        expect(new ConfigError('bad').exitCode).toBe(ExitCode.Config);
+        expect(new NotInProjectError('app').exitCode).toBe(ExitCode.NotInProject);
+        expect(new ExternalToolError('git pull').exitCode).toBe(ExitCode.ExternalTool);
+        expect(new UserCancelledError().exitCode).toBe(ExitCode.Cancelled);
+    });
+
+    it('should show help for usage errors only', () => {
+        expect(new UsageError('bad').showHelp).toBe(true);
+        expect(new UsageError('bad', { showHelp: false }).showHelp).toBe(false);
+        expect(new ConfigError('bad').showHelp).toBe(false);
+    });
+
+    it('should allow overriding exit codes and hints', () => {
+        const error = new ConfigError('bad', { exitCode: 9, hint: 'Fix it' });
+        expect(error.exitCode).toBe(9);
+        expect(error.hint).toBe('Fix it');
+        expect(error).toBeInstanceOf(CLIError);
+    });
+
+    it('should describe the missing project file', () => {
+        const error = new NotInProjectError('astrical');
+        expect(error.message).toBe('This command requires to be run within an app project (astrical.yml not found).');
+        expect(error.hint).toContain('--root-dir');
+    });
+
+    it('should keep the details of failed external tools', () => {
+        const error = new ExternalToolError('gitx status', { toolExitCode: 127, stderr: 'not found' });
+        expect(error.message).toBe('Command failed: gitx status');
+        expect(error.command).toBe('gitx status');
+        expect(error.toolExitCode).toBe(127);
+        expect(error.stderr).toBe('not found');
+        expect(error.hint).toContain('`gitx` is installed');
+    });
+});
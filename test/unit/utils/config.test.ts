@@ -1,6 +1,21 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { findProjectRoot, loadConfig } from '../../../src/utils/config.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    describeConfigOrigin,
+    findProjectRoot,
+    getConfigSearchPlaces,
+    getGlobalConfigDir,
+    loadConfig,
+    loadLayeredConfig,
+    locateYamlPath,
+    migrateConfig,
+    readEnvConfig,
+    validateConfig
+} from '../../../src/utils/config.js';
+import { ConfigError, UsageError } from '../../../src/errors.js';
 import { lilconfig } from 'lilconfig';
+import { z } from 'zod';
+import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 
 // Mock lilconfig
@@ -31,6 +46,19 @@ describe('Config Utilities', () => {
             const root = await findProjectRoot('app', '/some/path');
             expect(root).toBe('/abs/path/to');
         });
+
+        it('should search the places of the configured formats', async () => {
+            mockSearch.mockResolvedValue(null);
+            await findProjectRoot('app', '/some/path', ['json', 'package.json']);
+
+            expect(lilconfig).toHaveBeenCalledWith('app', expect.objectContaining({
+                searchPlaces: ['app.json', 'package.json']
+            }));
+            expect(getConfigSearchPlaces('app')).toEqual(['app.yml', 'app.yaml']);
+            expect(getConfigSearchPlaces('app', ['js', 'yaml'])).toEqual([
+                'app.config.js', 'app.config.mjs', 'app.config.ts', 'app.yml', 'app.yaml'
+            ]);
+        });
     });
 
     describe('loadConfig', () => {
@@ -49,6 +77,94 @@ describe('Config Utilities', () => {
             const config = await loadConfig('app', '/some/path');
             expect(config).toEqual(mockConfig);
         });
+
+        it('should validate the config against the schema and return the parsed result', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+            const filepath = path.join(dir, 'app.yml');
+            fs.writeFileSync(filepath, 'name: demo\nport: http\n');
+            mockSearch.mockResolvedValue({ filepath, config: { name: 'demo', port: 'http' } });
+
+            const schema = z.object({ name: z.string(), port: z.number().default(80) });
+
+            try {
+                await expect(loadConfig('app', dir, schema)).rejects.toThrow(`${filepath}:2:1 port:`);
+
+                mockSearch.mockResolvedValue({ filepath, config: { name: 'demo' } });
+                await expect(loadConfig('app', dir, schema)).resolves.toEqual({ name: 'demo', port: 80 });
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('should resolve extends and placeholders of the config found', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+            fs.writeFileSync(path.join(dir, 'base.yml'), 'region: eu\nretries: 2\n');
+            mockSearch.mockResolvedValue({
+                filepath: path.join(dir, 'app.yml'),
+                config: { extends: './base.yml', retries: 3, url: 'https://${config:region}.example.com' }
+            });
+
+            try {
+                await expect(loadConfig('app', dir)).resolves.toEqual({ region: 'eu', retries: 3, url: 'https://eu.example.com' });
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('validateConfig', () => {
+        const source = [
+            'name: demo',
+            'deploy:',
+            '  region: mars',
+            '  targets:',
+            '    - host: a',
+            '    - host: 42',
+            ''
+        ].join('\n');
+        const config = { name: 'demo', deploy: { region: 'mars', targets: [{ host: 'a' }, { host: 42 }] } };
+
+        it('should locate keys, list items and missing keys by their closest parent', () => {
+            expect(locateYamlPath(source, ['deploy', 'region'])).toEqual({ line: 3, col: 3 });
+            expect(locateYamlPath(source, ['deploy', 'targets', 1, 'host'])).toEqual({ line: 6, col: 7 });
+            expect(locateYamlPath(source, ['deploy', 'missing'])).toEqual({ line: 2, col: 1 });
+            expect(locateYamlPath('', ['name'])).toBeUndefined();
+        });
+
+        it('should report every issue with the file and position of the offending key', () => {
+            const schema = z.object({
+                name: z.string(),
+                deploy: z.object({
+                    region: z.enum(['eu', 'us']),
+                    targets: z.array(z.object({ host: z.string() }))
+                })
+            });
+
+            let error: any;
+            try {
+                validateConfig(schema, config, '/project/app.yml', source);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(ConfigError);
+            expect(error.message).toContain('/project/app.yml:3:3 deploy.region:');
+            expect(error.message).toContain('/project/app.yml:6:7 deploy.targets.1.host: Expected string, received number');
+            expect(error.hint).toBe('Fix the values above in app.yml.');
+        });
+
+        it('should point to unknown keys of strict schemas', () => {
+            const schema = z.object({ name: z.string(), deploy: z.object({ targets: z.any() }).strict() });
+
+            expect(() => validateConfig(schema, config, '/project/app.yml', source)).toThrow(
+                "/project/app.yml:3:3 deploy: Unrecognized key(s) in object: 'region'"
+            );
+        });
+
+        it('should return the parsed config when valid', () => {
+            const schema = z.object({ name: z.string().transform(name => name.toUpperCase()) });
+            expect(validateConfig(schema, { name: 'demo' }, '/project/app.yml', 'name: demo')).toEqual({ name: 'DEMO' });
+        });
     });
     describe('loadYaml', () => {
         it('should parse yaml content', async () => {
@@ -60,4 +176,328 @@ describe('Config Utilities', () => {
             expect(result).toEqual({ foo: 'bar' });
         });
     });
+
+    describe('loadLayeredConfig', () => {
+        let home: string;
+        let project: string;
+        let env: NodeJS.ProcessEnv;
+
+        beforeEach(() => {
+            home = fs.mkdtempSync(path.join(os.tmpdir(), 'config-home-'));
+            project = fs.mkdtempSync(path.join(os.tmpdir(), 'config-project-'));
+            env = { HOME: home };
+
+            fs.mkdirSync(path.join(home, '.config', 'app'), { recursive: true });
+            fs.writeFileSync(path.join(home, '.config', 'app', 'config.yml'), 'editor: vim\ndeploy:\n  region: eu\n  retries: 1\n');
+            fs.writeFileSync(path.join(project, 'app.yml'), 'name: site\ndeploy:\n  region: us\n  targets: [a, b]\n');
+            fs.writeFileSync(path.join(project, 'app.local.yml'), 'deploy:\n  targets: [local]\n');
+        });
+
+        afterEach(() => {
+            fs.rmSync(home, { recursive: true, force: true });
+            fs.rmSync(project, { recursive: true, force: true });
+        });
+
+        it('should resolve the global config directory', () => {
+            expect(getGlobalConfigDir('app', { XDG_CONFIG_HOME: '/xdg', HOME: '/home/me' })).toBe(path.join('/xdg', 'app'));
+            expect(getGlobalConfigDir('app', { HOME: '/home/me' })).toBe(path.join('/home/me', '.config', 'app'));
+        });
+
+        it('should deep-merge global, project, local and environment layers in order', async () => {
+            env.APP_DEPLOY__RETRIES = '3';
+
+            const layered = await loadLayeredConfig('app', project, { env });
+
+            expect(layered.config).toEqual({
+                editor: 'vim',
+                name: 'site',
+                deploy: { region: 'us', retries: 3, targets: ['local'] }
+            });
+            expect(layered.layers.map(layer => layer.name)).toEqual(['global', 'project', 'local', 'env']);
+            expect(layered.origins).toEqual({
+                editor: { layer: 'global', filepath: path.join(home, '.config', 'app', 'config.yml') },
+                name: { layer: 'project', filepath: path.join(project, 'app.yml') },
+                'deploy.region': { layer: 'project', filepath: path.join(project, 'app.yml') },
+                'deploy.retries': { layer: 'env', variable: 'APP_DEPLOY__RETRIES' },
+                'deploy.targets': { layer: 'local', filepath: path.join(project, 'app.local.yml') }
+            });
+        });
+
+        it('should only load the global and environment layers outside a project', async () => {
+            const layered = await loadLayeredConfig('app', null, { env: { ...env, APP_NAME: 'scratch' } });
+
+            expect(layered.config).toEqual({ editor: 'vim', name: 'scratch', deploy: { region: 'eu', retries: 1 } });
+        });
+
+        it('should locate validation issues in the layer that supplied the value', async () => {
+            const schema = z.object({
+                deploy: z.object({ region: z.enum(['eu', 'us']), retries: z.number(), targets: z.array(z.number()).optional() })
+            });
+            env.APP_DEPLOY__RETRIES = 'many';
+
+            const error: any = await loadLayeredConfig('app', project, { env, schema }).catch(e => e);
+
+            expect(error).toBeInstanceOf(ConfigError);
+            expect(error.message).toContain('APP_DEPLOY__RETRIES deploy.retries: Expected number, received string');
+            expect(error.message).toContain(`${path.join(project, 'app.local.yml')}:2:13 deploy.targets.0:`);
+        });
+
+        it('should report files that cannot be parsed', async () => {
+            fs.writeFileSync(path.join(project, 'app.local.yml'), 'deploy:\n  region: [eu\n');
+
+            await expect(loadLayeredConfig('app', project, { env })).rejects.toThrow(`Could not parse ${path.join(project, 'app.local.yml')}`);
+        });
+
+        it('should merge the files a config extends, recording the file of each value', async () => {
+            const shared = path.join(project, 'shared');
+            fs.mkdirSync(shared);
+            fs.writeFileSync(path.join(shared, 'base.yml'), 'deploy:\n  region: eu\n  retries: 5\n');
+            fs.writeFileSync(path.join(shared, 'team.yml'), 'extends: ./base.yml\ndeploy:\n  retries: 2\n');
+            fs.writeFileSync(path.join(project, 'app.yml'), 'extends: ./shared/team.yml\nname: site\n');
+            fs.rmSync(path.join(project, 'app.local.yml'));
+
+            const layered = await loadLayeredConfig('app', project, { env });
+
+            expect(layered.config).toEqual({ editor: 'vim', name: 'site', deploy: { region: 'eu', retries: 2 } });
+            expect(layered.origins['deploy.region']).toEqual({ layer: 'project', filepath: path.join(shared, 'base.yml') });
+            expect(layered.origins['deploy.retries']).toEqual({ layer: 'project', filepath: path.join(shared, 'team.yml') });
+            expect(layered.origins.name).toEqual({ layer: 'project', filepath: path.join(project, 'app.yml') });
+
+            const schema = z.object({ deploy: z.object({ region: z.enum(['us']) }) });
+            await expect(loadLayeredConfig('app', project, { env, schema })).rejects.toThrow(`${path.join(shared, 'base.yml')}:2:3 deploy.region:`);
+        });
+
+        it('should replace !include tags by the content of the fragment', async () => {
+            fs.writeFileSync(path.join(project, 'targets.yml'), '- host: a\n- host: b\n');
+            fs.writeFileSync(path.join(project, 'app.local.yml'), 'deploy:\n  targets: !include ./targets.yml\n');
+
+            const layered = await loadLayeredConfig('app', project, { env });
+
+            expect(layered.config.deploy.targets).toEqual([{ host: 'a' }, { host: 'b' }]);
+        });
+
+        it('should name the file chain of circular and missing references', async () => {
+            fs.writeFileSync(path.join(project, 'a.yml'), 'extends: ./b.yml\n');
+            fs.writeFileSync(path.join(project, 'b.yml'), 'nested: !include ./a.yml\n');
+            fs.writeFileSync(path.join(project, 'app.yml'), 'extends: ./a.yml\n');
+
+            const appFile = path.join(project, 'app.yml');
+            const aFile = path.join(project, 'a.yml');
+            const bFile = path.join(project, 'b.yml');
+            await expect(loadLayeredConfig('app', project, { env })).rejects.toThrow(
+                `Circular config reference: ${appFile} -> ${aFile} -> ${bFile} -> ${aFile}`
+            );
+
+            fs.writeFileSync(path.join(project, 'b.yml'), 'extends: ./missing.yml\n');
+            await expect(loadLayeredConfig('app', project, { env })).rejects.toThrow(
+                `Could not read ${path.join(project, 'missing.yml')} (referenced from ${appFile} -> ${aFile} -> ${bFile}): file not found`
+            );
+        });
+
+        it('should interpolate environment variables and other config keys', async () => {
+            fs.writeFileSync(path.join(project, 'app.yml'), [
+                'deploy:',
+                '  region: ${env:REGION}',
+                '  retries: ${config:defaults.retries}',
+                '  url: https://${config:deploy.region}.example.com',
+                'defaults:',
+                '  retries: 4',
+                ''
+            ].join('\n'));
+
+            const layered = await loadLayeredConfig('app', project, { env: { ...env, REGION: 'eu' } });
+
+            expect(layered.config.deploy).toEqual({ region: 'eu', retries: 4, url: 'https://eu.example.com', targets: ['local'] });
+
+            // Placeholders are only resolved when read: the other keys stay usable
+            const unset = await loadLayeredConfig('app', project, { env });
+            expect(unset.config.deploy.retries).toBe(4);
+            expect(() => unset.config.deploy.region).toThrow(
+                `Environment variable REGION is not set (in deploy.region of project (${path.join(project, 'app.yml')})).`
+            );
+        });
+
+        it('should report circular and unknown config placeholders', async () => {
+            fs.writeFileSync(path.join(project, 'app.yml'), 'a: ${config:b}\nb: x-${config:a}\n');
+            const circular = await loadLayeredConfig('app', project, { env });
+            expect(() => circular.config.a).toThrow('Circular config reference: a -> b -> a');
+
+            fs.writeFileSync(path.join(project, 'app.yml'), 'a: ${config:missing.key}\n');
+            const unknown = await loadLayeredConfig('app', project, { env });
+            expect(() => unknown.config.a).toThrow("Unknown config key 'missing.key' (in a of project");
+        });
+
+        it('should merge the selected profile over the config files and below the environment', async () => {
+            fs.writeFileSync(path.join(project, 'app.yml'), [
+                'defaultProfile: staging',
+                'deploy:',
+                '  region: us',
+                'profiles:',
+                '  staging:',
+                '    deploy:',
+                '      region: eu',
+                '      url: ${env:STAGING_URL}',
+                '  prod:',
+                '    deploy:',
+                '      region: ap',
+                '      url: ${env:PROD_URL}',
+                ''
+            ].join('\n'));
+            const projectFile = path.join(project, 'app.yml');
+            env.STAGING_URL = 'https://staging';
+
+            const staging = await loadLayeredConfig('app', project, { env: { ...env, APP_DEPLOY__RETRIES: '3' } });
+
+            // Placeholders of the other profiles are not resolved
+            expect(staging.config.deploy).toEqual({ region: 'eu', retries: 3, targets: ['local'], url: 'https://staging' });
+            expect(staging.config.profiles).toBeUndefined();
+            expect(staging.config.defaultProfile).toBeUndefined();
+            expect(staging.profile).toBe('staging');
+            expect(staging.profiles).toEqual(['staging', 'prod']);
+            expect(staging.layers.map(layer => layer.name)).toEqual(['global', 'project', 'local', 'profile', 'env']);
+            expect(staging.origins['deploy.region']).toEqual({ layer: 'profile', profile: 'staging', filepath: projectFile });
+            expect(describeConfigOrigin(staging.origins['deploy.region'])).toBe(`profile staging (${projectFile})`);
+
+            const fromEnv = await loadLayeredConfig('app', project, { env: { ...env, APP_PROFILE: 'prod', PROD_URL: 'https://prod' } });
+            expect(fromEnv.config.deploy.region).toBe('ap');
+            expect(fromEnv.config.profile).toBeUndefined();
+
+            const fromFlag = await loadLayeredConfig('app', project, { env: { ...env, APP_PROFILE: 'prod' }, profile: 'staging' });
+            expect(fromFlag.profile).toBe('staging');
+        });
+
+        it('should report unknown profiles and locate invalid profile values', async () => {
+            fs.writeFileSync(path.join(project, 'app.yml'), 'profiles:\n  staging:\n    deploy:\n      region: mars\n');
+
+            const flag: any = await loadLayeredConfig('app', project, { env, profile: 'stagin' }).catch(e => e);
+            expect(flag).toBeInstanceOf(UsageError);
+            expect(flag.message).toBe("Unknown profile 'stagin'.");
+            expect(flag.hint).toContain('staging');
+
+            await expect(loadLayeredConfig('app', project, { env: { ...env, APP_PROFILE: 'prod' } }))
+                .rejects.toThrow("Unknown profile 'prod' (from APP_PROFILE).");
+            // Outside of a project that defines profiles, the variable is ignored
+            expect((await loadLayeredConfig('app', null, { env: { ...env, APP_PROFILE: 'prod' } })).profile).toBeNull();
+
+            const schema = z.object({ deploy: z.object({ region: z.enum(['eu', 'us']) }) });
+            await expect(loadLayeredConfig('app', project, { env, schema, profile: 'staging' }))
+                .rejects.toThrow(`${path.join(project, 'app.yml')}:4:7 deploy.region:`);
+        });
+
+        it('should migrate the project config in memory up to the latest version', async () => {
+            const migrations = {
+                2: (config: any) => ({ ...config, deploy: { ...config.deploy, regions: [config.deploy.region] } }),
+                3: (config: any) => { delete config.deploy.region; }
+            };
+
+            const layered = await loadLayeredConfig('app', project, { env, migrations });
+
+            expect(layered.config.version).toBe(3);
+            // Only the project file is migrated: the global config still sets deploy.region
+            expect(layered.config.deploy).toEqual({ region: 'eu', regions: ['us'], retries: 1, targets: ['local'] });
+            expect(layered.layers.find(layer => layer.name === 'project')?.migratedFrom).toBe(1);
+            expect(fs.readFileSync(path.join(project, 'app.yml'), 'utf8')).toContain('region: us');
+
+            fs.writeFileSync(path.join(project, 'app.yml'), 'version: 3\ndeploy:\n  regions: [eu]\n');
+            const current = await loadLayeredConfig('app', project, { env, migrations });
+            expect(current.config.deploy.regions).toEqual(['eu']);
+            expect(current.layers.find(layer => layer.name === 'project')?.migratedFrom).toBeUndefined();
+        });
+
+        it('should reject config versions it cannot migrate', () => {
+            const migrations = { 2: () => { throw new Error('no region'); } };
+
+            expect(() => migrateConfig({ version: 4 }, migrations, 'app.yml'))
+                .toThrow('app.yml uses config version 4, but this version of the CLI supports up to 2.');
+            expect(() => migrateConfig({ version: 'two' }, migrations, 'app.yml')).toThrow("Invalid config version 'two' in app.yml");
+            expect(() => migrateConfig({}, migrations, 'app.yml')).toThrow('Could not migrate app.yml to config version 2: no region');
+            expect(migrateConfig({ name: 'site' }, {}, 'app.yml')).toEqual({ config: { name: 'site' }, from: 1, to: 1 });
+        });
+
+        it('should load the project config from the first configured format found', async () => {
+            fs.rmSync(path.join(project, 'app.yml'));
+            fs.writeFileSync(path.join(project, 'app.json'), '{ "name": "from-json", "deploy": { "region": 1 } }');
+            fs.writeFileSync(path.join(project, 'package.json'), JSON.stringify({ name: 'pkg', app: { name: 'from-package' } }));
+
+            const fromJson = await loadLayeredConfig('app', project, { env, formats: ['json', 'package.json'] });
+            expect(fromJson.config.name).toBe('from-json');
+            expect(fromJson.origins.name).toEqual({ layer: 'project', filepath: path.join(project, 'app.json') });
+
+            const schema = z.object({ deploy: z.object({ region: z.string() }) });
+            await expect(loadLayeredConfig('app', project, { env, formats: ['json'], schema })).rejects.toThrow(
+                `${path.join(project, 'app.json')}:1:36 deploy.region:`
+            );
+
+            const fromPackage = await loadLayeredConfig('app', project, { env, formats: ['package.json', 'json'] });
+            expect(fromPackage.config.name).toBe('from-package');
+
+            // Formats that are not enabled are ignored
+            const yamlOnly = await loadLayeredConfig('app', project, { env });
+            expect(yamlOnly.config.name).toBeUndefined();
+        });
+
+        it('should skip package.json files without a key for the CLI', async () => {
+            fs.writeFileSync(path.join(project, 'package.json'), JSON.stringify({ name: 'pkg' }));
+
+            const layered = await loadLayeredConfig('app', project, { env, formats: ['package.json', 'yaml'] });
+
+            expect(layered.config.name).toBe('site');
+        });
+
+        it('should load config modules, calling default exports that are functions', async () => {
+            fs.rmSync(path.join(project, 'app.yml'));
+            fs.writeFileSync(path.join(project, 'app.config.mjs'), [
+                'export default async ({ commandName, projectRoot, env }) => ({',
+                '    name: commandName + ":" + env.STAGE,',
+                '    root: projectRoot',
+                '});',
+                ''
+            ].join('\n'));
+
+            const layered = await loadLayeredConfig('app', project, { env: { ...env, STAGE: 'prod' }, formats: ['js'] });
+
+            expect(layered.config.name).toBe('app:prod');
+            expect(layered.config.root).toBe(project);
+            expect(layered.origins.name).toEqual({ layer: 'project', filepath: path.join(project, 'app.config.mjs') });
+        });
+
+        it('should report config modules that fail to load as config errors', async () => {
+            fs.rmSync(path.join(project, 'app.yml'));
+            fs.writeFileSync(path.join(project, 'app.config.mjs'), 'export default {\n');
+
+            await expect(loadLayeredConfig('app', project, { env, formats: ['js'] })).rejects.toMatchObject({
+                name: 'ConfigError',
+                message: expect.stringContaining(`Could not load ${path.join(project, 'app.config.mjs')}:`)
+            });
+
+            // What Node throws when importing a .ts file without a TypeScript loader (imports are
+            // cached by URL, hence another file)
+            fs.rmSync(path.join(project, 'app.config.mjs'));
+            fs.writeFileSync(path.join(project, 'app.config.js'), [
+                "const error = new TypeError('Unknown file extension \".ts\"');",
+                "error.code = 'ERR_UNKNOWN_FILE_EXTENSION';",
+                'throw error;',
+                ''
+            ].join('\n'));
+
+            await expect(loadLayeredConfig('app', project, { env, formats: ['js'] })).rejects.toMatchObject({
+                name: 'ConfigError',
+                message: `Could not load ${path.join(project, 'app.config.js')}: this runtime cannot import TypeScript.`,
+                hint: expect.stringContaining('tsx')
+            });
+        });
+
+        it('should read prefixed environment variables as nested camelCased keys', () => {
+            const layer = readEnvConfig('MY_CLI', {
+                MY_CLI_API_URL: 'https://api',
+                MY_CLI_DEPLOY__DRY_RUN: 'true',
+                MY_CLI_TOKEN: 'secret',
+                OTHER_NAME: 'x'
+            }, ['MY_CLI_TOKEN']);
+
+            expect(layer.config).toEqual({ apiUrl: 'https://api', deploy: { dryRun: true } });
+            expect(layer.variables).toEqual({ apiUrl: 'MY_CLI_API_URL', 'deploy.dryRun': 'MY_CLI_DEPLOY__DRY_RUN' });
+            expect(describeConfigOrigin({ layer: 'env', variable: 'MY_CLI_API_URL' })).toBe('env (MY_CLI_API_URL)');
+        });
+    });
 });
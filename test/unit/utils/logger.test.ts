@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { logger, setDebugMode } from '../../../src/utils/logger.js';
+import { captureLogs, logger, setDebugMode } from '../../../src/utils/logger.js';
+import { CapturingOutput } from '../../../src/utils/io.js';
 import { LogLevels } from 'consola';
 
 describe('Logger', () => {
@@ -24,4 +25,19 @@ describe('Logger', () => {
         setDebugMode(false);
         expect(logger.level).toBe(LogLevels.info);
     });
+
+    it('should print the logs through an output until restored', () => {
+        const output = new CapturingOutput();
+        const restore = captureLogs(output);
+        setDebugMode(true);
+        logger.debug('resolving');
+        logger.warn('deprecated');
+        restore();
+
+        expect(output.stdout).toContain('resolving');
+        expect(output.stdout).not.toMatch(/\n\n/);
+        expect(output.stderr).toContain('deprecated');
+        expect(logger.level).toBe(LogLevels.info);
+        expect(logger.options.stderr).toBe(process.stderr);
+    });
 });
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyConfigValues,
+    describeOptionSources,
+    getCommandConfig,
+    getOptionEnvName,
+    parseEnvValue,
+    resolveOptionValues,
+    toEnvPrefix,
+    wasOptionPassed
+} from '../../../src/utils/options.js';
+
+describe('option utils', () => {
+    describe('toEnvPrefix / getOptionEnvName', () => {
+        it('should derive the prefix from the CLI name', () => {
+            expect(toEnvPrefix('my-cli')).toBe('MY_CLI');
+            expect(toEnvPrefix('@scope/tool')).toBe('SCOPE_TOOL');
+        });
+
+        it('should prefer the declared binding', () => {
+            expect(getOptionEnvName({ name: '--token <token>', env: 'MYCLI_TOKEN' }, 'APP')).toBe('MYCLI_TOKEN');
+        });
+
+        it('should derive automatic bindings only when a prefix is given', () => {
+            expect(getOptionEnvName({ name: '--dry-run' }, 'MY_CLI')).toBe('MY_CLI_DRY_RUN');
+            expect(getOptionEnvName({ name: '--no-color' }, 'MY_CLI')).toBe('MY_CLI_COLOR');
+            expect(getOptionEnvName({ name: '--out, -o <dir>' }, 'MY_CLI')).toBe('MY_CLI_OUT');
+            expect(getOptionEnvName({ name: '--dry-run' })).toBeUndefined();
+        });
+    });
+
+    describe('wasOptionPassed', () => {
+        it('should detect long, negated and inline forms', () => {
+            expect(wasOptionPassed(['deploy', '--dry-run'], '--dry-run')).toBe(true);
+            expect(wasOptionPassed(['--token=abc'], '--token <token>')).toBe(true);
+            expect(wasOptionPassed(['--no-color'], '--no-color')).toBe(true);
+            expect(wasOptionPassed(['--dryRun'], '--dry-run')).toBe(true);
+            expect(wasOptionPassed(['--dry'], '--dry-run')).toBe(false);
+        });
+
+        it('should detect short aliases, including grouped ones', () => {
+            expect(wasOptionPassed(['-o', 'dist'], '--out, -o <dir>')).toBe(true);
+            expect(wasOptionPassed(['-vo', 'dist'], '--out, -o <dir>')).toBe(true);
+            expect(wasOptionPassed(['-v'], '--out, -o <dir>')).toBe(false);
+        });
+
+        it('should ignore tokens after --', () => {
+            expect(wasOptionPassed(['--', '--force'], '--force')).toBe(false);
+        });
+    });
+
+    describe('parseEnvValue', () => {
+        it('should parse booleans for flags without a value', () => {
+            expect(parseEnvValue({ name: '--force' }, 'true')).toBe(true);
+            expect(parseEnvValue({ name: '--force' }, '0')).toBe(false);
+            expect(parseEnvValue({ name: '--force' }, 'maybe')).toBe('maybe');
+        });
+
+        it('should keep strings for options taking a value', () => {
+            expect(parseEnvValue({ name: '--count <n>' }, '1')).toBe('1');
+        });
+    });
+
+    describe('resolveOptionValues', () => {
+        const options = [
+            { name: '--token <token>', env: 'MYCLI_TOKEN' },
+            { name: '--region <region>', default: 'eu' },
+            { name: '--force' }
+        ];
+
+        it('should apply precedence flag > env > default', () => {
+            const values: Record<string, any> = { token: 'from-flag', region: 'eu' };
+            const sources = resolveOptionValues(options, values, {
+                argv: ['--token', 'from-flag'],
+                env: { MYCLI_TOKEN: 'from-env', APP_REGION: 'us', APP_FORCE: 'yes' },
+                envPrefix: 'APP'
+            });
+
+            expect(values).toEqual({ token: 'from-flag', region: 'us', force: true });
+            expect(sources).toEqual({ token: 'flag', region: 'env', force: 'env' });
+        });
+
+        it('should fall back to declared defaults', () => {
+            const values: Record<string, any> = {};
+            const sources = resolveOptionValues(options, values, { argv: [], env: {} });
+
+            expect(values).toEqual({ region: 'eu' });
+            expect(sources).toEqual({ region: 'default' });
+        });
+    });
+
+    describe('applyConfigValues', () => {
+        const options = [
+            { name: '--repo <url>', default: 'https://default' },
+            { name: '--dry-run' },
+            { name: '--token <token>' }
+        ];
+
+        it('should read the section of the command', () => {
+            const config = { commands: { 'module add': { repo: 'x' } } };
+            expect(getCommandConfig(config, 'module add')).toEqual({ repo: 'x' });
+            expect(getCommandConfig(config, 'module remove')).toBeUndefined();
+            expect(getCommandConfig({}, 'module add')).toBeUndefined();
+        });
+
+        it('should override defaults but not flags or environment values', () => {
+            const values: Record<string, any> = { repo: 'https://default', token: 'from-env' };
+            const sources: Record<string, any> = { repo: 'default', token: 'env' };
+
+            const applied = applyConfigValues(options, values, sources, { repo: 'https://config', 'dry-run': true, token: 'from-config' });
+
+            expect(applied).toEqual(['repo', 'dryRun']);
+            expect(values).toEqual({ repo: 'https://config', dryRun: true, token: 'from-env' });
+            expect(sources).toEqual({ repo: 'config', dryRun: 'config', token: 'env' });
+        });
+
+        it('should describe the source of each value', () => {
+            expect(describeOptionSources(options, { repo: 'x', dryRun: false }, { repo: 'config' })).toEqual([
+                '--repo = "x" (config)',
+                '--dry-run = false (default)',
+                '--token = undefined (unset)'
+            ]);
+        });
+    });
+});
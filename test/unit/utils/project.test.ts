@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import fsPromises from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { CLI } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { createProjectLookup, resolveProjectContext } from '../../../src/utils/project.js';
+
+describe('project context', () => {
+    let root: string;
+    const env = { HOME: '/nonexistent' };
+
+    function write(file: string, content: string) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'project-'));
+        write('app.yml', 'region: eu\n');
+        write('src/index.ts', '');
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    function countReads(spy: { mock: { calls: any[][] } }, file: string) {
+        return spy.mock.calls.filter(([filepath]) => filepath === path.join(root, file)).length;
+    }
+
+    it('should resolve the root, config file and config from a subdirectory', async () => {
+        const project = await resolveProjectContext('app', { cwd: path.join(root, 'src'), env });
+
+        expect(project.root).toBe(root);
+        expect(project.workspaceRoot).toBeNull();
+        expect(project.configPath).toBe(path.join(root, 'app.yml'));
+        expect(project.config).toEqual({ region: 'eu' });
+        expect(project.origins.region).toEqual({ layer: 'project', filepath: path.join(root, 'app.yml') });
+        expect(project.warnings).toEqual([]);
+    });
+
+    it('should warn about ambiguous or missing config files', async () => {
+        write('app.yaml', 'region: us\n');
+        const ambiguous = await resolveProjectContext('app', { cwd: root, env });
+        expect(ambiguous.warnings).toEqual([`Found several config files in ${root} (app.yml, app.yaml); using app.yml.`]);
+
+        const missing = await resolveProjectContext('app', { cwd: root, env, rootDir: 'src' });
+        expect(missing.root).toBe(path.join(root, 'src'));
+        expect(missing.configPath).toBeNull();
+        expect(missing.warnings).toEqual([`No app config file found in ${path.join(root, 'src')}.`]);
+    });
+
+    it('should warn when the config is only migrated in memory', async () => {
+        const project = await resolveProjectContext('app', { cwd: root, env, migrations: { 2: (config) => ({ ...config, regions: [config.region] }) } });
+
+        expect(project.config).toEqual({ region: 'eu', regions: ['eu'], version: 2 });
+        expect(project.warnings).toEqual(['app.yml uses config version 1; it was migrated to version 2 in memory. Run `app config migrate` to update the file.']);
+    });
+
+    it('should not read the files a given lookup already read', async () => {
+        const lookup = createProjectLookup('app', undefined, env);
+        const projectRoot = await lookup.findRoot(path.join(root, 'src'));
+        await lookup.readConfigFile(projectRoot!);
+        const readFile = vi.spyOn(fsPromises, 'readFile');
+
+        const project = await resolveProjectContext('app', { cwd: path.join(root, 'src'), env, lookup });
+
+        expect(project.config).toEqual({ region: 'eu' });
+        expect(countReads(readFile, 'app.yml')).toBe(0);
+    });
+
+    describe('CLI', () => {
+        const seen: any[] = [];
+
+        class ShowCommand extends BaseCommand {
+            async run() {
+                seen.push(this.projectContext, await this.cli.getProjectContext({ cwd: this.context.cwd }));
+                this.info(`root=${this.projectRoot} region=${this.config.region}`);
+            }
+        }
+
+        function createCli() {
+            const cli = new CLI({ commandName: 'app', searchDirectories: ['/commands'], hooks: {
+                beforeRun: (ctx) => { seen.push(ctx.project); }
+            } });
+            vi.spyOn((cli as any).loader, 'load').mockResolvedValue([]);
+            vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+                { command: 'show', path: '/commands/show.ts', class: ShowCommand }
+            ]);
+            return cli;
+        }
+
+        beforeEach(() => {
+            seen.length = 0;
+        });
+
+        it('should resolve the project once per run and share it with hooks and commands', async () => {
+            const cli = createCli();
+
+            const result = await cli.run(['show'], { cwd: root, env });
+
+            expect(result.stdout).toBe(`root=${root} region=eu\n`);
+            expect(seen).toHaveLength(3);
+            expect(seen[1]).toBe(seen[0]);
+            expect(seen[2]).toBe(seen[0]);
+
+            // The next run sees the changes made in between
+            write('app.yml', 'region: us\n');
+            const next = await cli.run(['show'], { cwd: root, env });
+            expect(next.stdout).toBe(`root=${root} region=us\n`);
+            expect(seen[3]).not.toBe(seen[0]);
+        });
+
+        it('should look up the project once for the plugins and the project context', async () => {
+            const readFile = vi.spyOn(fsPromises, 'readFile');
+
+            await createCli().run(['show'], { cwd: root, env });
+
+            expect(countReads(readFile, 'app.yml')).toBe(1);
+        });
+
+        it('should let tests replace the project context', async () => {
+            const cli = createCli();
+            vi.spyOn(cli, 'getProjectContext').mockResolvedValue({
+                root: '/mocked',
+                workspaceRoot: null,
+                configPath: '/mocked/app.yml',
+                config: { region: 'ap' },
+                origins: {},
+                layers: [],
+                warnings: []
+            });
+
+            const result = await cli.run(['show'], { cwd: root, env });
+
+            expect(result.stdout).toBe('root=/mocked region=ap\n');
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import {
+    getOptionKey,
+    getArgKey,
+    coerceValue,
+    describeSchema,
+    formatSchemaHint,
+    validateCommandOptions
+} from '../../../src/utils/schema.js';
+import { CommandDefinition, InferOptions } from '../../../src/CommandInterface.js';
+
+// Rebuilds a schema on copies of zod's classes, as if it was created with another copy of zod
+function fromAnotherZod(schema: any): any {
+    const prototypes = new Map<object, object>();
+    const copyPrototype = (proto: any): any => {
+        if (!proto || proto === Object.prototype) return proto;
+        if (!prototypes.has(proto)) {
+            prototypes.set(proto, Object.create(copyPrototype(Object.getPrototypeOf(proto)), Object.getOwnPropertyDescriptors(proto)));
+        }
+        return prototypes.get(proto);
+    };
+    const copy = (value: any): any => {
+        if (Array.isArray(value)) return value.map(copy);
+        if (!value?._def?.typeName) return value;
+
+        const result = Object.create(copyPrototype(Object.getPrototypeOf(value)), Object.getOwnPropertyDescriptors(value));
+        result._def = Object.fromEntries(Object.entries(value._def).map(([key, item]) => [key, copy(item)]));
+        return result;
+    };
+    return copy(schema);
+}
+
+describe('schema utils', () => {
+    describe('getOptionKey / getArgKey', () => {
+        it('should derive camelCase option keys', () => {
+            expect(getOptionKey('--dry-run')).toBe('dryRun');
+            expect(getOptionKey('--repo <url>')).toBe('repo');
+            expect(getOptionKey('--no-color')).toBe('color');
+            expect(getOptionKey('--help, -h')).toBe('help');
+        });
+
+        it('should strip variadic suffix from argument names', () => {
+            expect(getArgKey('files...')).toBe('files');
+            expect(getArgKey('name')).toBe('name');
+        });
+    });
+
+    describe('coerceValue', () => {
+        it('should coerce numeric strings for number schemas', () => {
+            expect(coerceValue(z.number(), '42')).toBe(42);
+            expect(coerceValue(z.number().optional(), '1.5')).toBe(1.5);
+            expect(coerceValue(z.number(), 'abc')).toBe('abc');
+        });
+
+        it('should coerce boolean-like strings for boolean schemas', () => {
+            expect(coerceValue(z.boolean(), 'true')).toBe(true);
+            expect(coerceValue(z.boolean(), 'no')).toBe(false);
+            expect(coerceValue(z.boolean().default(false), 1)).toBe(true);
+            expect(coerceValue(z.boolean(), 'maybe')).toBe('maybe');
+        });
+
+        it('should stringify numbers parsed by CAC for string and enum schemas', () => {
+            expect(coerceValue(z.string(), 7)).toBe('7');
+            expect(coerceValue(z.enum(['1', '2']), 2)).toBe('2');
+        });
+
+        it('should wrap single values for array schemas', () => {
+            expect(coerceValue(z.array(z.number()), '3')).toEqual([3]);
+            expect(coerceValue(z.array(z.number()), ['1', '2'])).toEqual([1, 2]);
+        });
+
+        it('should leave undefined values alone', () => {
+            expect(coerceValue(z.number(), undefined)).toBeUndefined();
+        });
+    });
+
+    describe('describeSchema / formatSchemaHint', () => {
+        it('should describe primitive types', () => {
+            expect(describeSchema(z.string()).type).toBe('string');
+            expect(describeSchema(z.number().int()).type).toBe('integer');
+            expect(describeSchema(z.boolean().optional()).type).toBe('boolean');
+        });
+
+        it('should describe enums with their choices and defaults', () => {
+            const description = describeSchema(z.enum(['dev', 'prod']).default('dev'));
+            expect(description.choices).toEqual(['dev', 'prod']);
+            expect(description.default).toBe('dev');
+            expect(formatSchemaHint(z.enum(['dev', 'prod']))).toBe('one of: dev, prod');
+        });
+
+        it('should describe literal unions and arrays', () => {
+            expect(formatSchemaHint(z.union([z.literal('a'), z.literal('b')]))).toBe('one of: a, b');
+            expect(formatSchemaHint(z.array(z.number()))).toBe('number[]');
+        });
+    });
+
+    describe('schemas of another copy of zod', () => {
+        it('should be coerced and described like those of the CLI', () => {
+            const port = fromAnotherZod(z.number().int().optional());
+            expect(port).not.toBeInstanceOf(z.ZodOptional);
+
+            expect(coerceValue(port, '8080')).toBe(8080);
+            expect(coerceValue(fromAnotherZod(z.array(z.boolean())), 'yes')).toEqual([true]);
+            expect(describeSchema(port).type).toBe('integer');
+            expect(describeSchema(fromAnotherZod(z.enum(['dev', 'prod']).default('dev')))).toEqual({ type: 'enum', choices: ['dev', 'prod'], default: 'dev' });
+            expect(formatSchemaHint(fromAnotherZod(z.union([z.literal('a'), z.literal('b')])))).toBe('one of: a, b');
+        });
+    });
+
+    describe('validateCommandOptions', () => {
+        const definition = {
+            args: [
+                { name: 'env', required: true, schema: z.enum(['dev', 'prod']) },
+                { name: 'files...', schema: z.array(z.string()).optional() }
+            ],
+            options: [
+                { name: '--count <n>', schema: z.number().int().default(1) },
+                { name: '--force', schema: z.boolean().optional() },
+                { name: '--label <text>' }
+            ]
+        } as const satisfies CommandDefinition;
+
+        it('should coerce values and apply schema defaults', () => {
+            const result = validateCommandOptions(definition, { env: 'prod', count: '3', label: 'x' });
+            expect(result).toEqual({ success: true, data: { env: 'prod', count: 3, label: 'x' } });
+
+            const withDefaults = validateCommandOptions(definition, { env: 'dev' });
+            expect(withDefaults.success && withDefaults.data.count).toBe(1);
+        });
+
+        it('should report invalid values with the option or argument name', () => {
+            const result = validateCommandOptions(definition, { env: 'staging', count: 'many' });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.issues).toHaveLength(2);
+                expect(result.issues[0]).toContain('Invalid value for <env>');
+                expect(result.issues[1]).toContain('Invalid value for --count');
+            }
+        });
+
+        it('should pass through definitions without schemas', () => {
+            expect(validateCommandOptions(undefined, { a: 1 })).toEqual({ success: true, data: { a: 1 } });
+        });
+
+        it('should infer the options type from the definition', () => {
+            type Options = InferOptions<typeof definition>;
+            expectTypeOf<Options['env']>().toEqualTypeOf<'dev' | 'prod'>();
+            expectTypeOf<Options['count']>().toEqualTypeOf<number>();
+            expectTypeOf<Options['files']>().toEqualTypeOf<string[] | undefined>();
+            expectTypeOf<Options['force']>().toEqualTypeOf<boolean | undefined>();
+            expectTypeOf<Options['label']>().toEqualTypeOf<string | undefined>();
+        });
+    });
+});
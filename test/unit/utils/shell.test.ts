@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { runCommand } from '../../../src/utils/shell.js';
 import { logger } from '../../../src/utils/logger.js';
+import { ExternalToolError } from '../../../src/errors.js';
+import { CapturingOutput } from '../../../src/utils/io.js';
 import * as cp from 'node:child_process';
 
 vi.mock('../../../src/utils/logger.js');
@@ -48,6 +50,24 @@ describe('shell utils', () => {
         expect(mockExec).toHaveBeenCalledWith('ls', expect.objectContaining({ cwd: '/tmp' }), expect.anything());
     });
 
+    it('should run in the given context', async () => {
+        const mockExec = vi.mocked(cp.exec);
+        mockExec.mockImplementation(((cmd: string, options: any, cb: any) => {
+            const callback = cb || options;
+            callback(null, { stdout: 'built\n', stderr: '' });
+            return {} as any;
+        }) as any);
+        const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
+        const output = new CapturingOutput();
+        const env = { APP_ENV: 'test' };
+
+        await runCommand('make', 'packages/web', { cwd: '/repo', env, stdin: process.stdin, output });
+
+        expect(mockExec).toHaveBeenCalledWith('make', expect.objectContaining({ cwd: '/repo/packages/web', env }), expect.anything());
+        expect(output.stdout).toBe('built\n');
+        expect(consoleSpy).not.toHaveBeenCalled();
+    });
+
     it('should handle execution errors', async () => {
         const error: any = new Error('Shell Error');
         error.code = 1;
@@ -60,6 +80,8 @@ describe('shell utils', () => {
         }) as any);
 
         await expect(runCommand('fail')).rejects.toThrow('Command failed: fail');
+        await expect(runCommand('fail')).rejects.toMatchObject({ command: 'fail', toolExitCode: 1 });
+        await expect(runCommand('fail')).rejects.toBeInstanceOf(ExternalToolError);
 
         expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Command failed'));
     });
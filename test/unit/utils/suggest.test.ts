@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, findClosest, suggestCommand, suggestOption, formatSuggestion } from '../../../src/utils/suggest.js';
+
+describe('suggest utils', () => {
+    describe('editDistance', () => {
+        it('should count insertions, deletions and substitutions', () => {
+            expect(editDistance('add', 'add')).toBe(0);
+            expect(editDistance('ad', 'add')).toBe(1);
+            expect(editDistance('remove', 'remov')).toBe(1);
+            expect(editDistance('kitten', 'sitting')).toBe(3);
+        });
+
+        it('should count adjacent transpositions as one edit', () => {
+            expect(editDistance('moduel', 'module')).toBe(1);
+        });
+    });
+
+    describe('findClosest', () => {
+        it('should return the closest plausible candidate', () => {
+            expect(findClosest('instal', ['init', 'install', 'uninstall'])).toBe('install');
+        });
+
+        it('should accept candidates starting with the input', () => {
+            expect(findClosest('mod', ['module', 'init'])).toBe('module');
+        });
+
+        it('should return undefined when nothing is close', () => {
+            expect(findClosest('deploy', ['init', 'build'])).toBeUndefined();
+            expect(findClosest('x', ['ls'])).toBeUndefined();
+        });
+    });
+
+    describe('suggestCommand', () => {
+        const commands = [
+            { command: 'init', class: {} },
+            { command: 'module add', class: {} },
+            { command: 'module remove', class: { aliases: ['rm'] } },
+            { command: 'cloud db backup', class: {} }
+        ];
+
+        it('should suggest subcommands below the matched path', () => {
+            expect(suggestCommand(commands, ['module', 'ad'], ['module'])).toBe('module add');
+            expect(suggestCommand(commands, ['cloud', 'db', 'bakup'], ['cloud', 'db'])).toBe('cloud db backup');
+        });
+
+        it('should suggest full paths and namespaces for unknown top-level words', () => {
+            expect(suggestCommand(commands, ['moduel', 'add'])).toBe('module add');
+            expect(suggestCommand(commands, ['moduel'])).toBe('module');
+            expect(suggestCommand(commands, ['int'])).toBe('init');
+        });
+
+        it('should match aliases but suggest the canonical command', () => {
+            expect(suggestCommand(commands, ['module', 'rn'], ['module'])).toBe('module remove');
+        });
+
+        it('should return undefined when nothing is close', () => {
+            expect(suggestCommand(commands, ['deploy'])).toBeUndefined();
+        });
+    });
+
+    describe('suggestOption', () => {
+        it('should suggest long flags from raw option names', () => {
+            expect(suggestOption('--forse', ['--force', '--repo <url>'])).toBe('--force');
+            expect(suggestOption('--rep', ['--force', '--repo <url>'])).toBe('--repo');
+            expect(suggestOption('--hlp', ['--help, -h'])).toBe('--help');
+            expect(suggestOption('--zzz', ['--force'])).toBeUndefined();
+        });
+    });
+
+    it('should format suggestions', () => {
+        expect(formatSuggestion('module add')).toBe('Did you mean `module add`?');
+    });
+});
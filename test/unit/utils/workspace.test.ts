@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CLI } from '../../../src/CLI.js';
+import { BaseCommand } from '../../../src/BaseCommand.js';
+import { ExitCode, UsageError } from '../../../src/errors.js';
+import {
+    filterWorkspaceProjects,
+    findWorkspaceRoot,
+    listWorkspaceProjects,
+    matchesGlob,
+    selectWorkspaceProject
+} from '../../../src/utils/workspace.js';
+
+describe('workspaces', () => {
+    let root: string;
+    const env = { HOME: '/nonexistent' };
+
+    function write(file: string, content: string) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-'));
+        write('app.yml', "workspaces: ['packages/*', 'apps/**', '!apps/legacy']\n");
+        write('packages/api/app.yml', 'name: api-service\nregion: eu\n');
+        write('packages/web/app.yml', 'region: us\n');
+        write('packages/docs/README.md', 'no config here\n');
+        write('apps/admin/app.yml', '{}\n');
+        write('apps/legacy/app.yml', '{}\n');
+        write('packages/api/node_modules/dep/app.yml', '{}\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should enumerate the member projects with their config', async () => {
+        const projects = await listWorkspaceProjects('app', root, { env });
+
+        expect(projects).toEqual([
+            { name: 'admin', root: path.join(root, 'apps/admin'), config: {} },
+            { name: 'api-service', root: path.join(root, 'packages/api'), config: { name: 'api-service', region: 'eu' } },
+            { name: 'web', root: path.join(root, 'packages/web'), config: { region: 'us' } }
+        ]);
+    });
+
+    it('should find the workspace of a member or of the root itself', async () => {
+        expect(await findWorkspaceRoot('app', path.join(root, 'packages/api'), { env })).toBe(root);
+        expect(await findWorkspaceRoot('app', root, { env })).toBe(root);
+        expect(await findWorkspaceRoot('app', path.join(root, 'apps/legacy'), { env })).toBeNull();
+    });
+
+    it('should select a project by name or relative path', async () => {
+        const projects = await listWorkspaceProjects('app', root, { env });
+
+        expect(selectWorkspaceProject(projects, root, 'api-service').root).toBe(path.join(root, 'packages/api'));
+        expect(selectWorkspaceProject(projects, root, 'packages/web').name).toBe('web');
+        expect(() => selectWorkspaceProject(projects, root, 'api-servce')).toThrow(UsageError);
+        expect(() => selectWorkspaceProject(projects, root, 'nope')).toThrow(/Unknown project 'nope'/);
+    });
+
+    it('should filter projects by name or path glob', async () => {
+        const projects = await listWorkspaceProjects('app', root, { env });
+
+        expect(matchesGlob('packages/api', 'packages/*')).toBe(true);
+        expect(matchesGlob('apps/admin/ui', 'apps/*')).toBe(false);
+        expect(matchesGlob('apps/admin/ui', 'apps/**')).toBe(true);
+        expect(filterWorkspaceProjects(projects, root, 'packages/*').map(project => project.name)).toEqual(['api-service', 'web']);
+        expect(filterWorkspaceProjects(projects, root, 'a*').map(project => project.name)).toEqual(['admin', 'api-service']);
+    });
+
+    describe('commands', () => {
+        class WhereCommand extends BaseCommand {
+            async run() {
+                const projects = await this.getWorkspaceProjects();
+                this.info(`project=${this.projectRoot} workspace=${this.workspaceRoot} members=${projects.length}`);
+                this.info(`region=${this.config.region}`);
+            }
+        }
+
+        function createCli() {
+            const cli = new CLI({ commandName: 'app', searchDirectories: ['/commands'] });
+            vi.spyOn((cli as any).loader, 'load').mockResolvedValue([]);
+            vi.spyOn((cli as any).loader, 'getCommands').mockReturnValue([
+                { command: 'where', path: '/commands/where.ts', class: WhereCommand }
+            ]);
+            return cli;
+        }
+
+        it('should expose the workspace and project roots', async () => {
+            const result = await createCli().run(['where'], { cwd: path.join(root, 'packages/web'), env });
+
+            expect(result.stdout).toContain(`project=${path.join(root, 'packages/web')} workspace=${root} members=3`);
+            expect(result.stdout).toContain('region=us');
+        });
+
+        it('should select a member with --project', async () => {
+            const result = await createCli().run(['where', '--project', 'api-service'], { cwd: root, env });
+
+            expect(result.stdout).toContain(`project=${path.join(root, 'packages/api')} workspace=${root}`);
+            expect(result.stdout).toContain('region=eu');
+        });
+
+        it('should reject --project outside a workspace or for unknown members', async () => {
+            const unknown = await createCli().run(['where', '--project', 'wbe'], { cwd: root, env });
+            expect(unknown.exitCode).toBe(ExitCode.Usage);
+            expect(unknown.stderr).toContain('Did you mean');
+
+            const outside = await createCli().run(['where', '--project', 'web'], { cwd: os.tmpdir(), env });
+            expect(outside.exitCode).toBe(ExitCode.Usage);
+            expect(outside.stderr).toContain('--project requires a workspace');
+        });
+    });
+});
@@ -1,11 +1,18 @@
+import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 import { execa } from 'execa';
+import { afterAll } from 'vitest';
 import { fileURLToPath } from 'node:url';
 
 // Constants
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 export const CLI_BIN = path.resolve(__dirname, '../../dist/cli.js');
 
+// The command manifests the CLI caches are written here instead of the real home directory
+const CACHE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-cache-'));
+afterAll(() => fs.rmSync(CACHE_DIR, { recursive: true, force: true }));
+
 /**
  * Runs the CLI command against the compiled binary (E2E style)
  */
@@ -15,6 +22,7 @@ export async function runCLI(args: string[], cwd: string, options: any = {}) {
         ...options,
         env: {
             ...process.env,
+            XDG_CACHE_HOME: CACHE_DIR,
             ...options.env
         },
         reject: false // Allow checking exit code in tests